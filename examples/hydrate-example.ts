@@ -1,4 +1,4 @@
-import { State, Computed, Hydrate } from '../src/index';
+import { State, Computed, Hydrate, batch } from '../src/index';
 
 // This example demonstrates how to use the Hydrate function to bind reactive
 // states and computeds to object properties.
@@ -59,11 +59,13 @@ console.log('After changing age:');
 age.set(17);
 user.displayGreeting();
 
-// 8. Update multiple states
+// 8. Update multiple states in a batch - bindings update once with the final values
 console.log('After changing multiple values:');
-firstName.set('Alex');
-lastName.set('Smith');
-age.set(30);
+batch(() => {
+	firstName.set('Alex');
+	lastName.set('Smith');
+	age.set(30);
+});
 user.displayGreeting();
 
 // 9. Cleanup when done (in a real app, this would be called when the object is no longer needed)
@@ -0,0 +1,191 @@
+import { State, Computed, Observer, Hydrate } from '../index';
+import { AsyncComputed } from '../async-computed';
+
+/**
+ * Creates a promise along with functions to settle it from the test.
+ */
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+/**
+ * Waits for pending promise callbacks to run.
+ */
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AsyncComputed', () => {
+	test('should start loading and resolve to a value', async () => {
+		const request = deferred<number>();
+		const resource = new AsyncComputed(() => request.promise);
+
+		expect(resource.status.value).toBe('loading');
+		expect(resource.value).toBeUndefined();
+
+		request.resolve(42);
+		await flushPromises();
+
+		expect(resource.status.value).toBe('ready');
+		expect(resource.value).toBe(42);
+		expect(resource.error.value).toBeUndefined();
+	});
+
+	test('should hold the initial value until the first run resolves', async () => {
+		const resource = new AsyncComputed(async () => 'loaded', { initialValue: 'placeholder' });
+
+		expect(resource.value).toBe('placeholder');
+
+		await flushPromises();
+		expect(resource.value).toBe('loaded');
+	});
+
+	test('should expose rejections as an error status', async () => {
+		const failure = new Error('Not found');
+		const resource = new AsyncComputed<number>(async () => {
+			throw failure;
+		});
+
+		await flushPromises();
+
+		expect(resource.status.value).toBe('error');
+		expect(resource.error.value).toBe(failure);
+		expect(resource.value).toBeUndefined();
+	});
+
+	test('should expose synchronous throws as an error status', async () => {
+		const resource = new AsyncComputed<number>(() => {
+			throw new Error('Bad request');
+		});
+
+		await flushPromises();
+
+		expect(resource.status.value).toBe('error');
+		expect((resource.error.value as Error).message).toBe('Bad request');
+	});
+
+	test('should re-run when a dependency read before the first await changes', async () => {
+		const id = new State(1);
+		const calls: number[] = [];
+		const resource = new AsyncComputed(async () => {
+			const current = id.use();
+			calls.push(current);
+			await Promise.resolve();
+			return current * 10;
+		});
+
+		await flushPromises();
+		expect(resource.value).toBe(10);
+
+		id.value = 2;
+		expect(resource.status.value).toBe('loading');
+		expect(resource.value).toBe(10); // Keeps the previous value while loading
+
+		await flushPromises();
+		expect(calls).toEqual([1, 2]);
+		expect(resource.value).toBe(20);
+	});
+
+	test('should not track values read after the first await', async () => {
+		const before = new State(1);
+		const after = new State(1);
+		const mockFetch = jest.fn(async () => {
+			before.use();
+			await Promise.resolve();
+			return after.use();
+		});
+
+		new AsyncComputed(mockFetch);
+		await flushPromises();
+		mockFetch.mockClear();
+
+		after.value = 2;
+		expect(mockFetch).not.toHaveBeenCalled();
+
+		before.value = 2;
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	test('should abort and ignore stale runs', async () => {
+		const id = new State(1);
+		const requests: Array<{ signal: AbortSignal, request: ReturnType<typeof deferred<string>> }> = [];
+		const resource = new AsyncComputed(signal => {
+			id.use();
+			const request = deferred<string>();
+			requests.push({ signal, request });
+			return request.promise;
+		});
+
+		id.value = 2;
+
+		expect(requests[0].signal.aborted).toBe(true);
+		expect(requests[1].signal.aborted).toBe(false);
+
+		requests[1].request.resolve('second');
+		requests[0].request.resolve('first');
+		await flushPromises();
+
+		expect(resource.value).toBe('second');
+	});
+
+	test('should re-run when refreshed', async () => {
+		let count = 0;
+		const resource = new AsyncComputed(async () => ++count);
+
+		await flushPromises();
+		resource.refresh();
+		await flushPromises();
+
+		expect(resource.value).toBe(2);
+	});
+
+	test('should be consumable by computeds, observers and Hydrate', async () => {
+		const id = new State(1);
+		const resource = new AsyncComputed(async () => `user-${id.use()}`);
+		const label = new Computed(() => `Hello, ${resource.use() ?? '...'}`);
+		const seen: Array<string | undefined> = [];
+		const obj = {} as any;
+
+		Observer.watch(resource, value => seen.push(value));
+		Hydrate(obj, { label });
+
+		expect(obj.label).toBe('Hello, ...');
+
+		await flushPromises();
+		expect(seen).toEqual([undefined, 'user-1']);
+		expect(obj.label).toBe('Hello, user-1');
+
+		id.value = 2;
+		await flushPromises();
+		expect(seen).toEqual([undefined, 'user-1', 'user-2']);
+		expect(obj.label).toBe('Hello, user-2');
+	});
+
+	test('should abort and stop re-running when disposed', async () => {
+		const id = new State(1);
+		let signal: AbortSignal | undefined;
+		const mockFetch = jest.fn((s: AbortSignal) => {
+			signal = s;
+			id.use();
+			return deferred<number>().promise;
+		});
+
+		const resource = new AsyncComputed(mockFetch);
+		resource.dispose();
+
+		expect(signal!.aborted).toBe(true);
+
+		id.value = 2;
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(resource.isDisposed).toBe(true);
+	});
+
+	test('should not allow setting the value', () => {
+		const resource = new AsyncComputed(async () => 1);
+		expect(() => resource.set(2)).toThrow('Cannot set the value of an async computed');
+	});
+});
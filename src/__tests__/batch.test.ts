@@ -0,0 +1,141 @@
+import { State, Computed, Observer, ReactiveList, batch } from '../index';
+
+describe('batch', () => {
+	test('should notify state listeners once with the final value', () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set(1);
+			state.set(2);
+			state.set(3);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(3, 0, expect.anything());
+	});
+
+	test('should defer notifications until the batch ends', () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set(1);
+			expect(state.value).toBe(1);
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		expect(mockCallback).toHaveBeenCalledWith(1, 0, expect.anything());
+	});
+
+	test('should not notify when a value is changed back within the batch', () => {
+		const state = new State('a');
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set('b');
+			state.set('a');
+		});
+
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	test('should recompute computed values and run observers once', () => {
+		const firstName = new State('John');
+		const lastName = new State('Doe');
+		const age = new State(25);
+
+		let computeCount = 0;
+		const summary = new Computed(() => {
+			computeCount++;
+			return `${firstName.use()} ${lastName.use()} (${age.use()})`;
+		});
+
+		const updates: string[] = [];
+		Observer.watch(summary, value => updates.push(value));
+		updates.length = 0;
+		computeCount = 0;
+
+		batch(() => {
+			firstName.set('Alex');
+			lastName.set('Smith');
+			age.set(30);
+		});
+
+		expect(computeCount).toBe(1);
+		expect(updates).toEqual(['Alex Smith (30)']);
+	});
+
+	test('should only flush when the outermost batch ends', () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			batch(() => {
+				state.set(1);
+			});
+			expect(mockCallback).not.toHaveBeenCalled();
+			state.set(2);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(2, 0, expect.anything());
+	});
+
+	test('should notify reactive list listeners once', () => {
+		const list = new ReactiveList<number>();
+		const mockCallback = jest.fn();
+		list.onChange(mockCallback);
+
+		const total = new Computed(() => list.use().reduce((sum, x) => sum + x, 0));
+		const totals: number[] = [];
+		total.onChange(value => totals.push(value));
+
+		batch(() => {
+			list.add(1);
+			list.add(2);
+			list.add(3);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith([1, 2, 3], [], expect.anything());
+		expect(totals).toEqual([6]);
+	});
+
+	test('should return the value of the batched function', () => {
+		expect(batch(() => 42)).toBe(42);
+	});
+
+	test('should still flush when the batched function throws', () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		expect(() => batch(() => {
+			state.set(1);
+			throw new Error('failed');
+		})).toThrow('failed');
+
+		expect(mockCallback).toHaveBeenCalledWith(1, 0, expect.anything());
+	});
+
+	test('should expose up to date computed values inside the batch', () => {
+		const state = new State(1);
+		const doubled = new Computed(() => state.use() * 2);
+		const mockCallback = jest.fn();
+		doubled.onChange(mockCallback);
+
+		batch(() => {
+			state.set(2);
+			expect(doubled.value).toBe(4);
+			state.set(3);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(6, 2, expect.anything());
+	});
+});
@@ -0,0 +1,54 @@
+import { Clock } from '../clock';
+
+describe('Clock', () => {
+	test('manual clocks should tick every subscriber until it unsubscribes', () => {
+		const clock = Clock.manual();
+		const mockCallback = jest.fn();
+		const unsubscribe = clock.subscribe(mockCallback);
+
+		clock.tick(0.5);
+		unsubscribe();
+		clock.tick(0.5);
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(0.5);
+	});
+
+	test('timer clocks should tick with the elapsed time while anything is subscribed', () => {
+		jest.useFakeTimers();
+		try {
+			const clock = Clock.timer(50);
+			const deltas: number[] = [];
+			const unsubscribe = clock.subscribe(deltaTime => deltas.push(deltaTime));
+
+			jest.advanceTimersByTime(100);
+			expect(deltas).toHaveLength(2);
+			expect(deltas[0]).toBeCloseTo(0.05);
+
+			unsubscribe();
+			jest.advanceTimersByTime(100);
+			expect(deltas).toHaveLength(2);
+			expect(jest.getTimerCount()).toBe(0);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	test('frame clocks should fall back to a timer without requestAnimationFrame', () => {
+		jest.useFakeTimers();
+		try {
+			const clock = Clock.frame();
+			const mockCallback = jest.fn();
+			const unsubscribe = clock.subscribe(mockCallback);
+
+			jest.advanceTimersByTime(16);
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+
+			unsubscribe();
+			jest.advanceTimersByTime(32);
+			expect(jest.getTimerCount()).toBe(0);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+});
@@ -1,5 +1,6 @@
 import { State } from '../state';
 import { Computed } from '../computed';
+import { Observer } from '../observer';
 
 describe('Computed', () => {
 	test('should compute initial value', () => {
@@ -82,7 +83,7 @@ describe('Computed', () => {
 		computed.onChange(mockCallback);
 
 		state.value = 5;
-		expect(mockCallback).toHaveBeenCalledWith(10);
+		expect(mockCallback).toHaveBeenCalledWith(10, 2, expect.anything());
 	});
 
 	test('should not notify listeners when computed value remains the same', () => {
@@ -167,6 +168,479 @@ describe('Computed', () => {
 		state.value = 5;
 
 		// Callback should be called immediately due to forceEager
-		expect(mockFn).toHaveBeenCalledWith(10);
+		expect(mockFn).toHaveBeenCalledWith(10, 2, expect.anything());
+	});
+
+	describe('diamond dependencies', () => {
+		test('should recompute once per change', () => {
+			const a = new State(1);
+			const b = new Computed(() => a.use() + 1);
+			const c = new Computed(() => a.use() * 2);
+
+			let computeCount = 0;
+			const d = new Computed(() => {
+				computeCount++;
+				return b.use() + c.use();
+			});
+			d.onChange(() => {});
+			computeCount = 0;
+
+			a.value = 2;
+
+			expect(computeCount).toBe(1);
+			expect(d.value).toBe(7); // (2 + 1) + (2 * 2)
+		});
+
+		test('should never expose glitched intermediate values', () => {
+			const a = new State(1);
+			const b = new Computed(() => a.use() * 10);
+			const c = new Computed(() => a.use() * 100);
+			const d = new Computed(() => b.use() + c.use());
+
+			const seen: number[] = [];
+			d.onChange(value => seen.push(value));
+
+			a.value = 2;
+			a.value = 3;
+
+			expect(seen).toEqual([220, 330]);
+		});
+
+		test('should notify listeners in height order', () => {
+			const a = new State(1);
+			const b = new Computed(() => a.use() + 1);
+			const c = new Computed(() => b.use() + 1);
+			const d = new Computed(() => a.use() + c.use());
+
+			const order: string[] = [];
+			d.onChange(() => order.push('d'));
+			c.onChange(() => order.push('c'));
+			b.onChange(() => order.push('b'));
+			a.onChange(() => order.push('a'));
+
+			a.value = 2;
+
+			expect(order).toEqual(['a', 'b', 'c', 'd']);
+		});
+
+		test('should expose the height of the computed in the graph', () => {
+			const a = new State(1);
+			const b = new Computed(() => a.use());
+			const c = new Computed(() => b.use() + a.use());
+
+			expect(b.height).toBe(1);
+			expect(c.height).toBe(2);
+		});
+	});
+
+	describe('dispose', () => {
+		test('should stop recomputing when dependencies change', () => {
+			const state = new State(1);
+			let computeCount = 0;
+			const doubled = new Computed(() => {
+				computeCount++;
+				return state.use() * 2;
+			});
+			doubled.forceEager = true;
+			computeCount = 0;
+
+			doubled.dispose();
+			state.value = 2;
+
+			expect(computeCount).toBe(0);
+			expect(doubled.isDisposed).toBe(true);
+		});
+
+		test('should return the last computed value when read after disposal', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+
+			doubled.dispose();
+			state.value = 5;
+
+			expect(doubled.value).toBe(2);
+			expect(doubled.peek()).toBe(2);
+			expect(doubled.use()).toBe(2);
+		});
+
+		test('should drop listeners and dependents', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+			const quadrupled = doubled.map(x => x * 2);
+			const mockCallback = jest.fn();
+			doubled.onChange(mockCallback);
+
+			doubled.dispose();
+			state.value = 2;
+
+			expect(mockCallback).not.toHaveBeenCalled();
+			expect(quadrupled.value).toBe(4); // Still reads the last value of the disposed computed
+		});
+
+		test('should not be tracked by computeds that read it after disposal', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+			doubled.dispose();
+
+			const mockCallback = jest.fn();
+			const plusOne = new Computed(() => doubled.use() + 1);
+			plusOne.onChange(mockCallback);
+
+			state.value = 2;
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		test('autoDispose should dispose once the last listener is removed', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2, { autoDispose: true });
+
+			const first = doubled.onChange(() => {});
+			const second = doubled.onChange(() => {});
+
+			first();
+			expect(doubled.isDisposed).toBe(false);
+
+			second();
+			expect(doubled.isDisposed).toBe(true);
+		});
+
+		test('autoDispose should dispose once the last dependent stops reading it', () => {
+			const useDoubled = new State(true);
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2, { autoDispose: true });
+			const result = new Computed(() => useDoubled.use() ? doubled.use() : 0);
+			result.onChange(() => {});
+
+			state.value = 2;
+			expect(doubled.isDisposed).toBe(false);
+			expect(result.value).toBe(4);
+
+			useDoubled.value = false;
+			expect(doubled.isDisposed).toBe(true);
+		});
+
+		test('autoDispose should survive recomputation of its dependents', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2, { autoDispose: true });
+			const plusOne = new Computed(() => doubled.use() + 1);
+
+			const mockCallback = jest.fn();
+			Observer.watch(plusOne, mockCallback);
+
+			state.value = 2;
+			state.value = 3;
+
+			expect(doubled.isDisposed).toBe(false);
+			expect(mockCallback).toHaveBeenLastCalledWith(7, 5, expect.anything());
+		});
+
+		test('autoDispose should dispose when its observer is disposed', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2, { autoDispose: true });
+
+			const observer = Observer.watch(doubled, () => {});
+			observer.dispose();
+
+			expect(doubled.isDisposed).toBe(true);
+		});
+
+		test('autoDispose should not dispose a computed that was never used', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2, { autoDispose: true });
+
+			state.value = 2;
+
+			expect(doubled.isDisposed).toBe(false);
+			expect(doubled.value).toBe(4);
+		});
+	});
+
+	describe('equals option', () => {
+		test('should not notify listeners when the recomputed value is equal', () => {
+			const items = new State([1, 2, 3]);
+			const evens = new Computed(() => items.use().filter(x => x % 2 === 0), { equals: 'shallow' });
+			const mockCallback = jest.fn();
+			evens.onChange(mockCallback);
+
+			items.value = [1, 2, 3, 5];
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			items.value = [1, 2, 3, 4];
+			expect(mockCallback).toHaveBeenCalledWith([2, 4], [2], expect.anything());
+		});
+
+		test('should keep the previous value when the recomputed value is equal', () => {
+			const items = new State([1, 2]);
+			const copy = new Computed(() => [...items.use()], { equals: 'shallow' });
+			const before = copy.value;
+
+			items.value = [1, 2];
+
+			expect(copy.value).toBe(before);
+		});
+
+		test('should not recompute dependents when the value is equal', () => {
+			const items = new State([1, 2, 3]);
+			const evens = new Computed(() => items.use().filter(x => x % 2 === 0), { equals: 'deep' });
+
+			let computeCount = 0;
+			const count = new Computed(() => {
+				computeCount++;
+				return evens.use().length;
+			});
+			computeCount = 0;
+
+			items.value = [1, 2, 3, 5];
+			expect(count.value).toBe(1);
+			expect(computeCount).toBe(0);
+
+			items.value = [2, 4];
+			expect(count.value).toBe(2);
+			expect(computeCount).toBe(1);
+		});
+
+		test('should not run effects when the value is equal', () => {
+			const state = new State(1);
+			const isPositive = new Computed(() => state.use() > 0);
+			const mockEffect = jest.fn(() => {
+				isPositive.use();
+			});
+
+			Observer.effect(mockEffect);
+			mockEffect.mockClear();
+
+			state.value = 2;
+			expect(mockEffect).not.toHaveBeenCalled();
+
+			state.value = -1;
+			expect(mockEffect).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('errors', () => {
+		const failIfNegative = (value: number) => {
+			if (value < 0) {
+				throw new Error(`Negative value: ${value}`);
+			}
+			return value;
+		};
+
+		test('should capture errors instead of throwing from set()', () => {
+			const state = new State(1);
+			const checked = new Computed(() => failIfNegative(state.use()));
+			checked.forceEager = true;
+
+			expect(() => state.value = -1).not.toThrow();
+			expect(state.value).toBe(-1);
+		});
+
+		test('should rethrow the captured error to readers', () => {
+			const state = new State(-1);
+			const checked = new Computed(() => failIfNegative(state.use()));
+
+			expect(() => checked.value).toThrow('Negative value: -1');
+			expect(() => checked.peek()).toThrow('Negative value: -1');
+			expect((checked.error as Error).message).toBe('Negative value: -1');
+		});
+
+		test('should propagate errors to downstream computeds', () => {
+			const state = new State(1);
+			const checked = new Computed(() => failIfNegative(state.use()));
+			const doubled = new Computed(() => checked.use() * 2);
+
+			state.value = -1;
+
+			expect(() => doubled.value).toThrow('Negative value: -1');
+		});
+
+		test('should recover when dependencies change', () => {
+			const state = new State(-1);
+			const checked = new Computed(() => failIfNegative(state.use()));
+			const doubled = new Computed(() => checked.use() * 2);
+
+			expect(() => doubled.value).toThrow();
+
+			state.value = 3;
+
+			expect(checked.error).toBeUndefined();
+			expect(doubled.value).toBe(6);
+		});
+
+		test('should notify error listeners and then change listeners on recovery', () => {
+			const state = new State(1);
+			const checked = new Computed(() => failIfNegative(state.use()));
+			const errors: string[] = [];
+			const values: number[] = [];
+
+			checked.onError(error => errors.push((error as Error).message));
+			checked.onChange(value => values.push(value));
+
+			state.value = -1;
+			state.value = -2;
+			state.value = 1;
+
+			expect(errors).toEqual(['Negative value: -1', 'Negative value: -2']);
+			expect(values).toEqual([1]);
+		});
+
+		test('should not stop notifications to sibling dependents', () => {
+			const state = new State(1);
+			const failing = new Computed(() => failIfNegative(-state.use()));
+			const healthy = new Computed(() => state.use() * 10);
+			const mockCallback = jest.fn();
+
+			failing.onChange(() => {});
+			healthy.onChange(mockCallback);
+
+			state.value = 2;
+
+			expect(mockCallback).toHaveBeenCalledWith(20, 10, expect.anything());
+		});
+
+		test('should deliver to other nodes when a listener throws', () => {
+			const state = new State(1);
+			const first = new Computed(() => state.use() + 1);
+			const second = new Computed(() => state.use() + 2);
+			const mockCallback = jest.fn();
+
+			first.onChange(() => {
+				throw new Error('Listener failed');
+			});
+			second.onChange(mockCallback);
+
+			expect(() => state.value = 2).toThrow('Listener failed');
+			expect(mockCallback).toHaveBeenCalledWith(4, 3, expect.anything());
+		});
+
+		test('should keep dependencies read before the error', () => {
+			const shouldFail = new State(true);
+			const value = new State(1);
+			const result = new Computed(() => {
+				const current = value.use();
+				if (shouldFail.use()) {
+					throw new Error('Failed');
+				}
+				return current;
+			});
+			result.onChange(() => {});
+
+			shouldFail.value = false;
+
+			expect(result.value).toBe(1);
+		});
+
+		test('should capture errors thrown during construction', () => {
+			const computed = new Computed<number>(() => {
+				throw new Error('Initial failure');
+			});
+
+			expect(() => computed.value).toThrow('Initial failure');
+		});
+	});
+
+	describe('change info', () => {
+		test('should pass the previous value and the source to listeners', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+			const mockCallback = jest.fn();
+			doubled.onChange(mockCallback);
+
+			state.value = 4;
+
+			expect(mockCallback).toHaveBeenCalledWith(8, 2, { source: doubled });
+		});
+
+		test('should report the last delivered value as previous after several changes', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+			const deltas: Array<[number, number]> = [];
+			doubled.onChange((value, previousValue) => deltas.push([value, previousValue]));
+
+			state.value = 2;
+			state.value = 5;
+
+			expect(deltas).toEqual([[4, 2], [10, 4]]);
+		});
+	});
+
+	describe('writable computed', () => {
+		test('should derive its value from the getter', () => {
+			const celsius = new State(20);
+			const fahrenheit = new Computed({
+				get: () => celsius.use() * 9 / 5 + 32,
+				set: (value: number) => celsius.set((value - 32) * 5 / 9)
+			});
+
+			expect(fahrenheit.value).toBe(68);
+
+			celsius.value = 100;
+			expect(fahrenheit.value).toBe(212);
+		});
+
+		test('should write back to its sources when set', () => {
+			const celsius = new State(20);
+			const fahrenheit = new Computed({
+				get: () => celsius.use() * 9 / 5 + 32,
+				set: (value: number) => celsius.set((value - 32) * 5 / 9)
+			});
+
+			fahrenheit.set(212);
+
+			expect(celsius.value).toBe(100);
+			expect(fahrenheit.value).toBe(212);
+		});
+
+		test('should run the setter as one batch', () => {
+			const firstName = new State('Ada');
+			const lastName = new State('Lovelace');
+			const fullName = new Computed({
+				get: () => `${firstName.use()} ${lastName.use()}`,
+				set: (value: string) => {
+					const [first, ...rest] = value.split(' ');
+					firstName.set(first);
+					lastName.set(rest.join(' '));
+				}
+			});
+			const mockCallback = jest.fn();
+			fullName.onChange(mockCallback);
+
+			fullName.set('Grace Hopper');
+
+			expect(firstName.value).toBe('Grace');
+			expect(lastName.value).toBe('Hopper');
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith('Grace Hopper', 'Ada Lovelace', { source: fullName });
+		});
+
+		test('should report whether it is writable', () => {
+			const state = new State(1);
+			const readOnly = new Computed(() => state.use());
+			const writable = new Computed({ get: () => state.use(), set: (value: number) => state.set(value) });
+
+			expect(readOnly.isWritable).toBe(false);
+			expect(writable.isWritable).toBe(true);
+		});
+
+		test('should still throw when setting a read-only computed', () => {
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+
+			expect(() => doubled.set(4)).toThrow('Cannot set the value of a computed');
+		});
+
+		test('should be observable like any other reactive value', () => {
+			const celsius = new State(0);
+			const fahrenheit = new Computed({
+				get: () => celsius.use() * 9 / 5 + 32,
+				set: (value: number) => celsius.set((value - 32) * 5 / 9)
+			});
+			const values: number[] = [];
+			const observer = Observer.watch(fahrenheit, value => values.push(value));
+
+			fahrenheit.set(50);
+
+			expect(values).toEqual([32, 50]);
+			observer.dispose();
+		});
 	});
 });
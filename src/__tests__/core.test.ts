@@ -0,0 +1,272 @@
+import { DependencyTracker, IDependent, CircularDependencyError, Batch } from '../core';
+import { State } from '../state';
+import { Computed } from '../computed';
+
+describe('DependencyTracker', () => {
+	const createDependent = (): IDependent => ({ invalidate: jest.fn() });
+
+	test('should collect dependencies read inside track()', () => {
+		const a = new State(1);
+		const b = new State(2);
+
+		const { dependencies, result } = DependencyTracker.track(createDependent(), () => a.use() + b.use());
+
+		expect(result).toBe(3);
+		expect(dependencies).toEqual(new Set([a, b]));
+	});
+
+	test('should keep dependencies of nested frames separate', () => {
+		const a = new State(1);
+		const b = new State(2);
+		const c = new State(3);
+
+		let inner: Set<unknown> | undefined;
+		const outer = DependencyTracker.track(createDependent(), () => {
+			a.use();
+			inner = DependencyTracker.track(createDependent(), () => b.use()).dependencies;
+			return c.use();
+		});
+
+		expect(inner).toEqual(new Set([b]));
+		expect(outer.dependencies).toEqual(new Set([a, c]));
+	});
+
+	test('should restore the outer dependent after a nested frame', () => {
+		const outerDependent = createDependent();
+		const innerDependent = createDependent();
+
+		DependencyTracker.track(outerDependent, () => {
+			DependencyTracker.track(innerDependent, () => {
+				expect(DependencyTracker.currentDependent).toBe(innerDependent);
+			});
+			expect(DependencyTracker.currentDependent).toBe(outerDependent);
+		});
+
+		expect(DependencyTracker.currentDependent).toBeUndefined();
+	});
+
+	test('should pop the frame when the tracked function throws', () => {
+		expect(() => DependencyTracker.track(createDependent(), () => {
+			throw new Error('failed');
+		})).toThrow('failed');
+
+		expect(DependencyTracker.currentDependent).toBeUndefined();
+	});
+
+	test('should not track reads outside of a frame', () => {
+		const state = new State(1);
+		const dependent = createDependent();
+
+		state.use();
+		state.set(2);
+
+		expect(dependent.invalidate).not.toHaveBeenCalled();
+	});
+
+	test('should not track reads inside untracked()', () => {
+		const a = new State(1);
+		const b = new State(2);
+
+		const { dependencies, result } = DependencyTracker.track(createDependent(), () =>
+			a.use() + DependencyTracker.untracked(() => b.use())
+		);
+
+		expect(result).toBe(3);
+		expect(dependencies).toEqual(new Set([a]));
+	});
+
+	describe('nested computeds', () => {
+		test('should keep dependencies read before a dirty inner computed', () => {
+			const a = new State(1);
+			const b = new State(10);
+			const inner = new Computed(() => b.use() * 2);
+			const outer = new Computed(() => a.use() + inner.use());
+
+			// Make inner dirty so reading it from outer runs a nested evaluation
+			b.value = 20;
+			outer.recompute();
+			expect(outer.value).toBe(41);
+
+			a.value = 2;
+			expect(outer.value).toBe(42);
+		});
+
+		test('should track through deeply nested computeds', () => {
+			const source = new State(1);
+			const other = new State(100);
+
+			let level = new Computed(() => source.use());
+			for (let i = 0; i < 10; i++) {
+				const previous = level;
+				level = new Computed(() => other.use() + previous.use());
+			}
+
+			const top = level;
+			const mockCallback = jest.fn();
+			top.onChange(mockCallback);
+
+			source.value = 2;
+			expect(mockCallback).toHaveBeenLastCalledWith(1002, 1001, expect.anything());
+
+			other.value = 200;
+			expect(mockCallback).toHaveBeenLastCalledWith(2002, 1002, expect.anything());
+		});
+
+		test('should drop dependencies that are no longer read', () => {
+			const useA = new State(true);
+			const a = new State('a');
+			const b = new State('b');
+			const readA = new Computed(() => a.use().toUpperCase());
+			const readB = new Computed(() => b.use().toUpperCase());
+
+			let computeCount = 0;
+			const result = new Computed(() => {
+				computeCount++;
+				return useA.use() ? readA.use() : readB.use();
+			});
+			result.onChange(() => {});
+
+			useA.value = false;
+			expect(result.value).toBe('B');
+
+			computeCount = 0;
+			a.value = 'x';
+			expect(computeCount).toBe(0);
+
+			b.value = 'y';
+			expect(result.value).toBe('Y');
+			expect(computeCount).toBe(1);
+		});
+
+		test('should pick up dependencies read only on some branches', () => {
+			const enabled = new State(false);
+			const value = new State(1);
+			const inner = new Computed(() => value.use() * 10);
+			const outer = new Computed(() => enabled.use() ? inner.use() : 0);
+
+			const mockCallback = jest.fn();
+			outer.onChange(mockCallback);
+
+			value.value = 2;
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			enabled.value = true;
+			expect(mockCallback).toHaveBeenLastCalledWith(20, 0, expect.anything());
+
+			value.value = 3;
+			expect(mockCallback).toHaveBeenLastCalledWith(30, 20, expect.anything());
+		});
+	});
+
+	describe('cycle detection', () => {
+		test('should throw when a computed reads itself through another computed', () => {
+			const toggle = new State(false);
+			let b: Computed<number> | undefined;
+			const a = new Computed(() => toggle.use() && b ? b.use() + 1 : 0);
+			b = new Computed(() => a.use() + 1);
+			a.name = 'a';
+			b.name = 'b';
+
+			toggle.value = true;
+
+			expect(() => a.value).toThrow(CircularDependencyError);
+			expect(() => a.value).toThrow('Circular dependency detected: a -> b -> a');
+		});
+
+		test('should list the nodes in the cycle', () => {
+			const toggle = new State(false);
+			let self: Computed<number> | undefined;
+			const computed = new Computed(() => toggle.use() && self ? self.use() : 0);
+			self = computed;
+
+			toggle.value = true;
+
+			let caught: unknown;
+			try {
+				computed.value;
+			} catch (error) {
+				caught = error;
+			}
+
+			expect(caught).toBeInstanceOf(CircularDependencyError);
+			expect((caught as CircularDependencyError).chain).toEqual([computed, computed]);
+			expect((caught as Error).message).toBe('Circular dependency detected: Computed -> Computed');
+		});
+
+		test('should throw when a listener keeps re-triggering its own state', () => {
+			const counter = new State(0);
+			counter.name = 'counter';
+			counter.onChange(value => counter.set(value + 1));
+
+			expect(() => counter.set(1)).toThrow('Circular dependency detected: counter -> counter');
+		});
+
+		test('should throw when listeners keep re-triggering each other', () => {
+			const ping = new State(0);
+			const pong = new State(0);
+			ping.name = 'ping';
+			pong.name = 'pong';
+			ping.onChange(value => pong.set(value + 1));
+			pong.onChange(value => ping.set(value + 1));
+
+			expect(() => ping.set(1)).toThrow('Circular dependency detected: ping -> pong -> ping');
+		});
+
+		test('should allow listeners that settle', () => {
+			const value = new State(0);
+			value.onChange(current => {
+				if (current < 10) {
+					value.set(current + 1);
+				}
+			});
+
+			value.set(1);
+
+			expect(value.value).toBe(10);
+		});
+	});
+});
+
+describe('Batch', () => {
+	test('should run queued tasks lowest height first, in queue order on ties', () => {
+		const order: string[] = [];
+		const heights = [3, 0, 2, 0, Infinity, 1, 2, 0, 3, 1];
+
+		Batch.run(() => {
+			heights.forEach((height, i) => {
+				Batch.enqueue({}, () => order.push(`${height}:${i}`), height);
+			});
+		});
+
+		expect(order).toEqual(['0:1', '0:3', '0:7', '1:5', '1:9', '2:2', '2:6', '3:0', '3:8', 'Infinity:4']);
+	});
+
+	test('should pick up tasks queued while flushing in height order', () => {
+		const order: string[] = [];
+
+		Batch.run(() => {
+			Batch.enqueue({}, () => {
+				order.push('a');
+				Batch.enqueue({}, () => order.push('c'), 5);
+				Batch.enqueue({}, () => order.push('b'), 1);
+			}, 0);
+			Batch.enqueue({}, () => order.push('d'), 10);
+		});
+
+		expect(order).toEqual(['a', 'b', 'c', 'd']);
+	});
+
+	test('should keep only the first task queued for an owner until it runs', () => {
+		const owner = {};
+		const first = jest.fn();
+		const second = jest.fn();
+
+		Batch.run(() => {
+			Batch.enqueue(owner, first);
+			Batch.enqueue(owner, second);
+		});
+
+		expect(first).toHaveBeenCalledTimes(1);
+		expect(second).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,102 @@
+import { strictEqual, shallowEqual, deepEqual, resolveEquality } from '../equality';
+
+describe('equality', () => {
+	describe('strictEqual', () => {
+		test('should compare with ===', () => {
+			expect(strictEqual(1, 1)).toBe(true);
+			expect(strictEqual({}, {})).toBe(false);
+		});
+	});
+
+	describe('shallowEqual', () => {
+		test('should compare primitives with ===', () => {
+			expect(shallowEqual(1, 1)).toBe(true);
+			expect(shallowEqual('a', 'b')).toBe(false);
+			expect(shallowEqual(null, undefined)).toBe(false);
+		});
+
+		test('should compare arrays by items', () => {
+			const item = { id: 1 };
+			expect(shallowEqual([1, item], [1, item])).toBe(true);
+			expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false);
+			expect(shallowEqual([{ id: 1 }], [{ id: 1 }])).toBe(false);
+		});
+
+		test('should compare plain objects by own keys', () => {
+			expect(shallowEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+			expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+			expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+		});
+
+		test('should compare maps, sets and dates by contents', () => {
+			expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true);
+			expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+			expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+			expect(shallowEqual(new Set([1]), new Set([2]))).toBe(false);
+			expect(shallowEqual(new Date(0), new Date(0))).toBe(true);
+			expect(shallowEqual(new Date(0), new Date(1))).toBe(false);
+		});
+
+		test('should not treat different kinds of collection as equal', () => {
+			expect(shallowEqual([], {})).toBe(false);
+			expect(shallowEqual(new Map(), new Set())).toBe(false);
+			expect(shallowEqual(new Date(0), 0)).toBe(false);
+		});
+
+		test('should compare class instances by identity', () => {
+			class Point { constructor(public x: number) {} }
+			expect(shallowEqual(new Point(1), new Point(1))).toBe(false);
+		});
+	});
+
+	describe('deepEqual', () => {
+		test('should compare nested structures', () => {
+			const a = { list: [1, { b: new Date(5) }], map: new Map([['k', { v: [1] }]]), set: new Set([{ x: 1 }]) };
+			const b = { list: [1, { b: new Date(5) }], map: new Map([['k', { v: [1] }]]), set: new Set([{ x: 1 }]) };
+
+			expect(deepEqual(a, b)).toBe(true);
+		});
+
+		test('should detect nested differences', () => {
+			expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+			expect(deepEqual(new Set([{ x: 1 }]), new Set([{ x: 2 }]))).toBe(false);
+			expect(deepEqual(new Map([['k', [1]]]), new Map([['k', [2]]]))).toBe(false);
+		});
+
+		test('should pair each Set member with a distinct member of the other Set', () => {
+			expect(deepEqual(new Set([[1], [1]]), new Set([[1], [2]]))).toBe(false);
+			expect(deepEqual(new Set([[1], [2]]), new Set([[1], [1]]))).toBe(false);
+			expect(deepEqual(new Set([[1], [1]]), new Set([[1], [1]]))).toBe(true);
+
+			const shared = [3];
+			expect(deepEqual(new Set([shared, [3]]), new Set([[3], shared]))).toBe(true);
+			expect(deepEqual(new Set([shared, [4]]), new Set([[3], shared]))).toBe(false);
+		});
+
+		test('should handle cyclic structures', () => {
+			const a: any = { name: 'node' };
+			a.self = a;
+			const b: any = { name: 'node' };
+			b.self = b;
+
+			expect(deepEqual(a, b)).toBe(true);
+
+			b.name = 'other';
+			expect(deepEqual(a, b)).toBe(false);
+		});
+	});
+
+	describe('resolveEquality', () => {
+		test('should resolve built-in comparators by name', () => {
+			expect(resolveEquality('strict')).toBe(strictEqual);
+			expect(resolveEquality('shallow')).toBe(shallowEqual);
+			expect(resolveEquality('deep')).toBe(deepEqual);
+			expect(resolveEquality()).toBe(strictEqual);
+		});
+
+		test('should pass custom functions through', () => {
+			const custom = (a: number, b: number) => Math.abs(a - b) < 1;
+			expect(resolveEquality(custom)).toBe(custom);
+		});
+	});
+});
@@ -0,0 +1,151 @@
+import { State } from '../state';
+import { Computed } from '../computed';
+import { ReactiveList } from '../reactive-list';
+import { AsyncComputed } from '../async-computed';
+import { Observer } from '../observer';
+import { Hydrate } from '../hydrate';
+import { GraphExporter, getDependencies, getDependents, getListenerCount } from '../graph';
+
+describe('Graph', () => {
+	describe('introspection', () => {
+		test('should accept a name through the options of every node', () => {
+			expect(new State(1, { name: 'count' }).name).toBe('count');
+			expect(new Computed(() => 1, { name: 'one' }).name).toBe('one');
+			expect(new ReactiveList<number>([], { name: 'items' }).name).toBe('items');
+			expect(new AsyncComputed(async () => 1, { name: 'remote' }).name).toBe('remote');
+			expect(Observer.effect(() => {}, { name: 'logger' }).name).toBe('logger');
+		});
+
+		test('should report dependencies and dependents of computeds', () => {
+			const a = new State(1);
+			const b = new State(2);
+			const sum = new Computed(() => a.use() + b.use());
+			const doubled = new Computed(() => sum.use() * 2);
+
+			expect(getDependencies(sum)).toEqual([a, b]);
+			expect(getDependents(a)).toEqual([sum]);
+			expect(getDependents(sum)).toEqual([doubled]);
+			expect(getDependencies(a)).toEqual([]);
+		});
+
+		test('should follow dependencies that change between evaluations', () => {
+			const useA = new State(true);
+			const a = new State('a');
+			const b = new State('b');
+			const result = new Computed(() => useA.use() ? a.use() : b.use());
+
+			useA.value = false;
+			result.value;
+
+			expect(getDependencies(result)).toEqual([useA, b]);
+			expect(getDependents(a)).toEqual([]);
+		});
+
+		test('should report observers and hydrate bindings as dependents', () => {
+			const count = new State(1);
+			const target = { count: 0 };
+			const watcher = Observer.watch(count, () => {});
+			const effect = Observer.effect(() => { count.use(); });
+			Hydrate(target, { count }, { name: 'target' });
+
+			const dependents = getDependents(count);
+
+			expect(dependents).toContain(watcher);
+			expect(dependents).toContain(effect);
+			expect(dependents.map(dependent => (dependent as { name?: string }).name)).toContain('target.count');
+			expect(getDependencies(watcher)).toEqual([count]);
+			expect(getDependencies(effect)).toEqual([count]);
+		});
+
+		test('should stop reporting disposed observers and bindings', () => {
+			const count = new State(1);
+			const watcher = Observer.watch(count, () => {});
+			const dispose = Hydrate({ count: 0 }, { count });
+
+			watcher.dispose();
+			dispose();
+
+			expect(getDependents(count)).toEqual([]);
+		});
+
+		test('should count listeners', () => {
+			const state = new State(1);
+			const list = new ReactiveList<number>();
+			const computed = new Computed(() => state.use());
+
+			state.onChange(() => {});
+			Observer.watch(state, () => {});
+			list.onItemAdded(() => {});
+			computed.onError(() => {});
+
+			expect(getListenerCount(state)).toBe(2);
+			expect(getListenerCount(list)).toBe(1);
+			expect(getListenerCount(computed)).toBe(1);
+			expect(getListenerCount({})).toBe(0);
+		});
+	});
+
+	describe('GraphExporter', () => {
+		test('should export every node connected to the roots', () => {
+			const price = new State(10, { name: 'price' });
+			const quantity = new State(2, { name: 'quantity' });
+			const total = new Computed(() => price.use() * quantity.use(), { name: 'total' });
+			Observer.watch(total, () => {}, { name: 'render' });
+
+			const snapshot = GraphExporter.snapshot([price]);
+
+			expect(snapshot.nodes).toEqual([
+				{ id: 'n0', type: 'State', name: 'price', listenerCount: 0 },
+				{ id: 'n1', type: 'Computed', name: 'total', listenerCount: 1 },
+				{ id: 'n2', type: 'State', name: 'quantity', listenerCount: 0 },
+				{ id: 'n3', type: 'Observer', name: 'render', listenerCount: 0 }
+			]);
+			expect(snapshot.edges).toEqual([
+				{ from: 'n0', to: 'n1' },
+				{ from: 'n2', to: 'n1' },
+				{ from: 'n1', to: 'n3' }
+			]);
+		});
+
+		test('should export the same graph from any root', () => {
+			const source = new State(1);
+			const derived = new Computed(() => source.use() + 1);
+
+			const fromSource = GraphExporter.snapshot([source]);
+			const fromDerived = GraphExporter.snapshot([derived]);
+
+			expect(fromSource.nodes.length).toBe(2);
+			expect(fromDerived.nodes.length).toBe(2);
+			expect(fromDerived.edges).toEqual([{ from: 'n1', to: 'n0' }]);
+		});
+
+		test('should export JSON', () => {
+			const state = new State(1, { name: 'count' });
+
+			expect(JSON.parse(GraphExporter.toJSON([state]))).toEqual({
+				nodes: [{ id: 'n0', type: 'State', name: 'count', listenerCount: 0 }],
+				edges: []
+			});
+		});
+
+		test('should export Graphviz DOT', () => {
+			const count = new State(1, { name: 'count' });
+			const label = new Computed(() => `"${count.use()}"`);
+			label.onChange(() => {});
+
+			expect(GraphExporter.toDot([count])).toBe([
+				'digraph reactive {',
+				'  n0 [label="count\\nState"];',
+				'  n1 [label="Computed\\nlisteners: 1"];',
+				'  n0 -> n1;',
+				'}'
+			].join('\n'));
+		});
+
+		test('should escape names in DOT labels', () => {
+			const state = new State(1, { name: 'say "hi"' });
+
+			expect(GraphExporter.toDot([state])).toContain('[label="say \\"hi\\"\\nState"]');
+		});
+	});
+});
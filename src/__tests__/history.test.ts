@@ -0,0 +1,348 @@
+import { History } from '../history';
+import { State } from '../state';
+import { ReactiveList } from '../reactive-list';
+import { Scope } from '../scope';
+import { batch } from '../core';
+import { Scheduler } from '../scheduler';
+import { ValidatedState } from '../validated-state';
+
+describe('History', () => {
+	test('should undo and redo state changes', () => {
+		const count = new State(0);
+		const history = new History([count]);
+
+		count.set(1);
+		count.set(2);
+
+		expect(history.undo()).toBe(true);
+		expect(count.value).toBe(1);
+		expect(history.undo()).toBe(true);
+		expect(count.value).toBe(0);
+		expect(history.undo()).toBe(false);
+
+		expect(history.redo()).toBe(true);
+		expect(count.value).toBe(1);
+		expect(history.redo()).toBe(true);
+		expect(count.value).toBe(2);
+		expect(history.redo()).toBe(false);
+	});
+
+	test('should not record the changes made by undo and redo', () => {
+		const count = new State(0);
+		const history = new History([count]);
+
+		count.set(1);
+		history.undo();
+		history.redo();
+		history.undo();
+
+		expect(count.value).toBe(0);
+		expect(history.canUndo.value).toBe(false);
+		expect(history.canRedo.value).toBe(true);
+	});
+
+	test('a new change should drop the redo steps', () => {
+		const count = new State(0);
+		const history = new History([count]);
+
+		count.set(1);
+		history.undo();
+		count.set(5);
+
+		expect(history.canRedo.value).toBe(false);
+		history.undo();
+		expect(count.value).toBe(0);
+	});
+
+	test('canUndo and canRedo should be reactive', () => {
+		const count = new State(0);
+		const history = new History([count]);
+		const canUndo = jest.fn();
+		const canRedo = jest.fn();
+		history.canUndo.onChange(canUndo);
+		history.canRedo.onChange(canRedo);
+
+		count.set(1);
+		expect(canUndo).toHaveBeenLastCalledWith(true, false, expect.anything());
+
+		history.undo();
+		expect(canUndo).toHaveBeenLastCalledWith(false, true, expect.anything());
+		expect(canRedo).toHaveBeenLastCalledWith(true, false, expect.anything());
+	});
+
+	test('should undo every kind of list mutation', () => {
+		const list = new ReactiveList(['a', 'b', 'c']);
+		const history = new History([list]);
+		const steps: string[][] = [list.peek()];
+
+		const mutate = (func: () => void) => {
+			func();
+			steps.push(list.peek());
+		};
+
+		mutate(() => list.add('d'));
+		mutate(() => list.insert(1, 'x'));
+		mutate(() => list.removeAt(0));
+		mutate(() => list.remove('c'));
+		mutate(() => list.update(1, 'y'));
+		mutate(() => list.replace(['p', 'q']));
+		mutate(() => list.clear());
+
+		for (let i = steps.length - 2; i >= 0; i--) {
+			history.undo();
+			expect(list.value).toEqual(steps[i]);
+		}
+		for (let i = 1; i < steps.length; i++) {
+			history.redo();
+			expect(list.value).toEqual(steps[i]);
+		}
+	});
+
+	test('should undo inserts at indexes out of range', () => {
+		const list = new ReactiveList(['a', 'b']);
+		const history = new History([list]);
+
+		list.insert(10, 'x');
+		list.insert(-1, 'y');
+		expect(list.value).toEqual(['y', 'a', 'b', 'x']);
+
+		expect(history.undo()).toBe(true);
+		expect(list.value).toEqual(['a', 'b', 'x']);
+		expect(history.undo()).toBe(true);
+		expect(list.value).toEqual(['a', 'b']);
+
+		history.redo();
+		history.redo();
+		expect(list.value).toEqual(['y', 'a', 'b', 'x']);
+	});
+
+	test('should undo an insert an interceptor moved out of range', () => {
+		const list = new ReactiveList(['a', 'b']);
+		list.intercept((mutation, next) => next(mutation.kind === 'insert' ? { ...mutation, index: 99 } : mutation));
+		const history = new History([list]);
+
+		list.insert(0, 'x');
+		expect(list.value).toEqual(['a', 'b', 'x']);
+
+		expect(history.undo()).toBe(true);
+		expect(list.value).toEqual(['a', 'b']);
+	});
+
+	test('should undo list changes with inverse operations rather than replacing the list', () => {
+		const list = new ReactiveList([1, 2, 3]);
+		const history = new History([list]);
+		list.update(1, 20);
+
+		const callback = jest.fn();
+		list.onChange(callback);
+		history.undo();
+
+		expect(list.value).toEqual([1, 2, 3]);
+		expect(callback.mock.calls[0][2].mutations).toEqual([{ kind: 'update', index: 1, added: [2], removed: [20] }]);
+	});
+
+	test('changes in one transaction should be a single undo step', () => {
+		const title = new State('Untitled');
+		const shapes = new ReactiveList<string>();
+		const history = new History([title, shapes]);
+
+		history.transaction(() => {
+			title.set('Drawing');
+			shapes.add('circle');
+			shapes.add('square');
+			history.transaction(() => title.set('Sketch'));
+		});
+
+		history.undo();
+		expect(title.value).toBe('Untitled');
+		expect(shapes.value).toEqual([]);
+		expect(history.canUndo.value).toBe(false);
+
+		history.redo();
+		expect(title.value).toBe('Sketch');
+		expect(shapes.value).toEqual(['circle', 'square']);
+	});
+
+	test('changes in one batch should be a single undo step', () => {
+		const a = new State(1);
+		const b = new State(2);
+		const history = new History([a, b]);
+
+		batch(() => {
+			a.set(10);
+			b.set(20);
+		});
+
+		history.undo();
+		expect(a.value).toBe(1);
+		expect(b.value).toBe(2);
+	});
+
+	test('a batch that ends where it started should not be recorded', () => {
+		const count = new State(0);
+		const history = new History([count]);
+
+		batch(() => {
+			count.set(1);
+			count.set(0);
+		});
+
+		expect(history.canUndo.value).toBe(false);
+	});
+
+	test('should drop the oldest steps beyond the maximum depth', () => {
+		const count = new State(0);
+		const history = new History([count], { maxDepth: 2 });
+
+		count.set(1);
+		count.set(2);
+		count.set(3);
+
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(false);
+		expect(count.value).toBe(1);
+	});
+
+	test('untrack() should stop recording a target', () => {
+		const a = new State(0);
+		const b = new State(0);
+		const history = new History([a]);
+		const untrackB = history.track(b);
+
+		b.set(1);
+		untrackB();
+		b.set(2);
+
+		history.undo();
+		expect(b.value).toBe(0);
+		expect(history.canUndo.value).toBe(false);
+	});
+
+	test('clear() should forget every step', () => {
+		const count = new State(0);
+		const history = new History([count]);
+
+		count.set(1);
+		history.clear();
+
+		expect(history.canUndo.value).toBe(false);
+		expect(history.undo()).toBe(false);
+	});
+
+	test('dispose() should stop recording and leave the scope', () => {
+		const scope = new Scope();
+		const count = new State(0);
+		const history = new History([count], { scope });
+
+		scope.dispose();
+		count.set(1);
+
+		expect(history.undo()).toBe(false);
+		expect(count.getListenerCount()).toBe(0);
+	});
+
+	test('should record the value as it is stored, after the other interceptors', () => {
+		const name = new ValidatedState('Ada', {
+			validators: [value => value.length === 0 ? 'Required' : null],
+			policy: 'reject',
+			interceptors: [(value, next) => next(value.trim())]
+		});
+		const history = new History([name]);
+
+		name.set('  Grace ');
+		name.set('   ');
+
+		expect(name.value).toBe('Grace');
+		expect(history.undo()).toBe(true);
+		expect(name.value).toBe('Ada');
+		expect(history.undo()).toBe(false);
+	});
+
+	describe('with a deferred scheduler', () => {
+		afterEach(() => {
+			Scheduler.default = Scheduler.sync;
+		});
+
+		test('should not record undo and redo as new steps', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+			const count = new State(1);
+			const history = new History([count]);
+
+			count.set(2);
+			scheduler.flush();
+			history.undo();
+			scheduler.flush();
+
+			expect(count.value).toBe(1);
+			expect(history.canUndo.value).toBe(false);
+			expect(history.canRedo.value).toBe(true);
+
+			history.redo();
+			scheduler.flush();
+
+			expect(count.value).toBe(2);
+			expect(history.canUndo.value).toBe(true);
+			expect(history.canRedo.value).toBe(false);
+		});
+
+		test('should record changes before the scheduler flushes', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+			const count = new State(0);
+			const shapes = new ReactiveList<string>();
+			const history = new History([count, shapes]);
+
+			count.set(1);
+			count.set(2);
+			shapes.add('circle');
+
+			expect(history.undo()).toBe(true);
+			expect(shapes.value).toEqual([]);
+			expect(history.undo()).toBe(true);
+			expect(count.value).toBe(1);
+			scheduler.flush();
+			expect(history.canUndo.value).toBe(true);
+		});
+
+		test('changes in one transaction should be a single undo step', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+			const title = new State('Untitled');
+			const shapes = new ReactiveList<string>(['circle']);
+			const history = new History([title, shapes]);
+
+			history.transaction(() => {
+				title.set('Sketch');
+				shapes.add('square');
+				shapes.removeAt(0);
+			});
+			scheduler.flush();
+
+			expect(history.undo()).toBe(true);
+			expect(title.value).toBe('Untitled');
+			expect(shapes.value).toEqual(['circle']);
+			expect(history.canUndo.value).toBe(false);
+		});
+
+		test('changes in one batch should be a single undo step', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+			const a = new State(1);
+			const b = new State(2);
+			const history = new History([a, b]);
+
+			batch(() => {
+				a.set(10);
+				b.set(20);
+			});
+			scheduler.flush();
+
+			expect(history.undo()).toBe(true);
+			expect(a.value).toBe(1);
+			expect(b.value).toBe(2);
+			expect(history.canUndo.value).toBe(false);
+		});
+	});
+});
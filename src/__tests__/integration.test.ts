@@ -1,4 +1,5 @@
-import { State, Computed, Observer } from '../index';
+import { State, Computed, Observer, persist } from '../index';
+import type { IStorageAdapter, ICodec, IScheduler, StateInterceptor } from '../index';
 import { ReactiveList } from '../reactive-list';
 
 describe('Integration tests', () => {
@@ -66,6 +67,42 @@ describe('Integration tests', () => {
 		expect(doubled.value).toBe(10);
 	});
 
+	test('should let the extension points be implemented with types from the entry point', () => {
+		const data = new Map<string, string>();
+		const storage: IStorageAdapter = {
+			read: key => data.get(key) ?? null,
+			write: (key, value) => {
+				data.set(key, value);
+			},
+			remove: key => {
+				data.delete(key);
+			}
+		};
+		const codec: ICodec<number> = {
+			encode: value => value.toString(16),
+			decode: text => parseInt(text, 16)
+		};
+		const tasks: Array<() => void> = [];
+		const scheduler: IScheduler = {
+			schedule: (owner, task) => {
+				tasks.push(task);
+			},
+			flush: () => tasks.splice(0).forEach(task => task())
+		};
+		const double: StateInterceptor<number> = (value, next) => next(value * 2);
+
+		const count = new State(0, { interceptors: [double] });
+		const values: number[] = [];
+		persist(count, { key: 'count', storage, codec, debounce: 0 });
+		Observer.watch(count, value => values.push(value), { scheduler });
+
+		count.set(8);
+		scheduler.flush();
+
+		expect(data.get('count')).toBe('10');
+		expect(values).toEqual([0, 16]);
+	});
+
 	describe('ReactiveList Integration', () => {
 		test('should track complex dependency chains', () => {
 			// Create a list of game entities
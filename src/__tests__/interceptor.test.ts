@@ -0,0 +1,321 @@
+import { State, StateInterceptor } from '../state';
+import { ReactiveList, ListInterceptor } from '../reactive-list';
+import { ValidatedState } from '../validated-state';
+import { Computed } from '../computed';
+import { batch } from '../core';
+
+describe('Interceptors', () => {
+	describe('on State', () => {
+		test('should transform values before they are stored', () => {
+			const clamp: StateInterceptor<number> = (value, next) => next(Math.min(100, Math.max(0, value)));
+			const volume = new State(50, { interceptors: [clamp] });
+
+			volume.set(150);
+			expect(volume.value).toBe(100);
+
+			volume.value = -5;
+			expect(volume.value).toBe(0);
+		});
+
+		test('should not store a vetoed value or notify anyone', () => {
+			const state = new State('draft');
+			const doubled = new Computed(() => state.use() + state.use());
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+			state.intercept((value, next) => {
+				if (value !== 'locked') {
+					next(value);
+				}
+			});
+
+			state.set('locked');
+
+			expect(state.value).toBe('draft');
+			expect(state.getVersion()).toBe(0);
+			expect(doubled.value).toBe('draftdraft');
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		test('should run interceptors in order, each seeing the previous one\'s output', () => {
+			const calls: string[] = [];
+			const state = new State('', {
+				interceptors: [
+					(value, next) => {
+						calls.push(`trim ${JSON.stringify(value)}`);
+						next(value.trim());
+					},
+					(value, next) => {
+						calls.push(`upper ${JSON.stringify(value)}`);
+						next(value.toUpperCase());
+					}
+				]
+			});
+
+			state.set('  ada ');
+
+			expect(state.value).toBe('ADA');
+			expect(calls).toEqual(['trim "  ada "', 'upper "ada"']);
+		});
+
+		test('should let interceptors observe the write before and after it is committed', () => {
+			const log: string[] = [];
+			const state = new State(1, { name: 'count' });
+			state.onChange(value => log.push(`listener ${value}`));
+			state.intercept((value, next, source) => {
+				log.push(`before ${source.name} ${source.peek()} -> ${value}`);
+				next(value);
+				log.push(`after ${source.peek()}`);
+			});
+
+			state.set(2);
+
+			expect(log).toEqual(['before count 1 -> 2', 'listener 2', 'after 2']);
+		});
+
+		test('should intercept before the equality check', () => {
+			const state = new State(100, { interceptors: [(value: number, next) => next(Math.min(100, value))] });
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.set(150);
+
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		test('should let errors thrown by an interceptor reject the write', () => {
+			const state = new State(1);
+			state.intercept(() => {
+				throw new Error("Read only.");
+			});
+
+			expect(() => state.set(2)).toThrow('Read only.');
+			expect(state.value).toBe(1);
+		});
+
+		test('should stop running an interceptor once it is removed', () => {
+			const state = new State(0);
+			const remove = state.intercept((value, next) => next(value * 10));
+
+			state.set(1);
+			expect(state.value).toBe(10);
+
+			remove();
+			state.set(2);
+			expect(state.value).toBe(2);
+		});
+
+		test('should not pass the initial value through the interceptors', () => {
+			const state = new State(500, { interceptors: [(value: number, next) => next(Math.min(100, value))] });
+
+			expect(state.value).toBe(500);
+		});
+
+		test('should throw if an interceptor calls next more than once', () => {
+			const state = new State(0);
+			state.intercept((value, next) => {
+				next(value);
+				next(value + 1);
+			});
+
+			expect(() => state.set(1)).toThrow('An interceptor called next() more than once for the same write.');
+		});
+
+		test('should validate the value as it comes out of the interceptors', () => {
+			const name = new ValidatedState<string>('Ada', {
+				validators: [value => value.length === 0 ? 'Required' : null],
+				policy: 'reject',
+				interceptors: [(value, next) => next(value.trim())]
+			});
+
+			name.set('   ');
+
+			expect(name.value).toBe('Ada');
+			expect(name.errors.value).toEqual(['Required']);
+
+			name.set('  Grace ');
+
+			expect(name.value).toBe('Grace');
+			expect(name.isValid.value).toBe(true);
+		});
+	});
+
+	describe('on ReactiveList', () => {
+		test('should transform added items', () => {
+			const trim: ListInterceptor<string> = (mutation, next) =>
+				next({ ...mutation, added: mutation.added.map(item => item.trim()) });
+			const list = new ReactiveList<string>([], { interceptors: [trim] });
+
+			list.add(' a ');
+			list.insert(0, ' b');
+			list.update(1, 'c ');
+			list.replace([' d ', ' e ']);
+
+			expect(list.value).toEqual(['d', 'e']);
+		});
+
+		test('should describe each mutation as a splice before it is applied', () => {
+			const seen: Array<{ kind: string; index: number; added: string[]; removed: string[]; items: string[] }> = [];
+			const list = new ReactiveList(['a', 'b', 'c']);
+			list.intercept((mutation, next, source) => {
+				seen.push({ ...mutation, items: source.peek() });
+				next(mutation);
+			});
+
+			list.add('d');
+			list.insert(1, 'x');
+			list.update(0, 'z');
+			list.remove('b');
+			list.removeAt(0);
+			list.clear();
+
+			expect(seen).toEqual([
+				{ kind: 'add', index: 3, added: ['d'], removed: [], items: ['a', 'b', 'c'] },
+				{ kind: 'insert', index: 1, added: ['x'], removed: [], items: ['a', 'b', 'c', 'd'] },
+				{ kind: 'update', index: 0, added: ['z'], removed: ['a'], items: ['a', 'x', 'b', 'c', 'd'] },
+				{ kind: 'remove', index: 2, added: [], removed: ['b'], items: ['z', 'x', 'b', 'c', 'd'] },
+				{ kind: 'remove', index: 0, added: [], removed: ['z'], items: ['z', 'x', 'c', 'd'] },
+				{ kind: 'clear', index: 0, added: [], removed: ['x', 'c', 'd'], items: ['x', 'c', 'd'] }
+			]);
+		});
+
+		test('should veto mutations without changing the list or notifying anyone', () => {
+			const list = new ReactiveList([1, 2, 3]);
+			const length = new Computed(() => list.length);
+			const changeCallback = jest.fn();
+			const removeCallback = jest.fn();
+			list.onChange(changeCallback);
+			list.onItemRemoved(removeCallback);
+			list.intercept((mutation, next) => {
+				if (mutation.kind !== 'remove' && mutation.kind !== 'clear') {
+					next(mutation);
+				}
+			});
+
+			expect(list.remove(2)).toBe(false);
+			expect(list.removeAt(0)).toBeUndefined();
+			list.clear();
+
+			expect(list.value).toEqual([1, 2, 3]);
+			expect(length.value).toBe(3);
+			expect(changeCallback).not.toHaveBeenCalled();
+			expect(removeCallback).not.toHaveBeenCalled();
+			expect(list.getVersion()).toBe(0);
+		});
+
+		test('should report vetoed updates as not applied', () => {
+			const list = new ReactiveList(['a']);
+			list.intercept(() => {});
+
+			expect(list.update(0, 'b')).toBe(false);
+			expect(list.value).toEqual(['a']);
+		});
+
+		test('should pass the transformed mutation to change listeners', () => {
+			const list = new ReactiveList<number>([], { interceptors: [(mutation, next) => next({ ...mutation, added: mutation.added.map(n => n * 2) })] });
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+
+			list.add(5);
+
+			expect(mockCallback).toHaveBeenCalledWith([10], [], expect.objectContaining({
+				kind: 'add',
+				mutations: [{ kind: 'add', index: 0, added: [10], removed: [] }]
+			}));
+		});
+
+		test('should apply a mutation at the index chosen by an interceptor', () => {
+			const list = new ReactiveList(['a', 'b', 'c']);
+			list.intercept((mutation, next) => next(mutation.kind === 'insert' ? { ...mutation, index: 0 } : mutation));
+
+			list.insert(2, 'x');
+
+			expect(list.value).toEqual(['x', 'a', 'b', 'c']);
+		});
+
+		test('should add, remove and update at the index chosen by an interceptor', () => {
+			const list = new ReactiveList(['a', 'b', 'c']);
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+			list.intercept((mutation, next) => next({ ...mutation, index: 0 }));
+
+			list.add('x');
+			expect(list.value).toEqual(['x', 'a', 'b', 'c']);
+			expect(mockCallback).toHaveBeenLastCalledWith(['x', 'a', 'b', 'c'], ['a', 'b', 'c'], expect.objectContaining({
+				mutations: [{ kind: 'add', index: 0, added: ['x'], removed: [] }]
+			}));
+
+			list.update(2, 'y');
+			expect(list.value).toEqual(['y', 'a', 'b', 'c']);
+
+			expect(list.remove('c')).toBe(true);
+			expect(list.value).toEqual(['a', 'b', 'c']);
+		});
+
+		test('should clamp inserts to the list and report where the item went', () => {
+			const list = new ReactiveList(['a']);
+			const seen: number[] = [];
+			const mockCallback = jest.fn();
+			list.intercept((mutation, next) => {
+				seen.push(mutation.index);
+				next(mutation);
+			});
+			list.onMutation(mockCallback);
+
+			list.insert(10, 'b');
+			list.insert(-3, 'c');
+
+			expect(list.value).toEqual(['c', 'a', 'b']);
+			expect(seen).toEqual([1, 0]);
+			expect(mockCallback.mock.calls.map(([mutation]) => mutation.index)).toEqual([1, 0]);
+		});
+
+		test('should add at the end when an interceptor gives an index out of range', () => {
+			const list = new ReactiveList(['a']);
+			list.intercept((mutation, next) => next({ ...mutation, index: 10 }));
+
+			list.add('b');
+
+			expect(list.value).toEqual(['a', 'b']);
+		});
+
+		test('should always apply replace and clear to the whole list', () => {
+			const list = new ReactiveList(['a', 'b', 'c']);
+			list.intercept((mutation, next) => next({ ...mutation, index: 1, added: mutation.added.map(item => item.toUpperCase()) }));
+
+			list.replace(['x', 'y']);
+			expect(list.value).toEqual(['X', 'Y']);
+
+			list.clear();
+			expect(list.value).toEqual([]);
+		});
+
+		test('should intercept every mutation inside a batch', () => {
+			const kinds: string[] = [];
+			const list = new ReactiveList<number>();
+			list.intercept((mutation, next) => {
+				kinds.push(mutation.kind);
+				next(mutation);
+			});
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+
+			batch(() => {
+				list.add(1);
+				list.add(2);
+				list.set([3]);
+			});
+
+			expect(kinds).toEqual(['add', 'add', 'replace']);
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+		});
+
+		test('should stop intercepting once disposed', () => {
+			const list = new ReactiveList<number>([], { interceptors: [() => {}] });
+
+			list.dispose();
+			list.add(1);
+
+			expect(list.value).toEqual([1]);
+		});
+	});
+});
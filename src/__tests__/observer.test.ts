@@ -1,6 +1,12 @@
 import { State } from '../state';
 import { Computed } from '../computed';
 import { Observer } from '../observer';
+import { ReactiveList } from '../reactive-list';
+import { ReactiveMap } from '../reactive-map';
+import { ReactiveSet } from '../reactive-set';
+import { batch } from '../core';
+import { Scheduler } from '../scheduler';
+import { getDependencies, getDependents } from '../graph';
 
 describe('Observer', () => {
 	test('should execute callback immediately with initial value', () => {
@@ -21,7 +27,7 @@ describe('Observer', () => {
 
 		state.value = 2;
 
-		expect(mockCallback).toHaveBeenCalledWith(2);
+		expect(mockCallback).toHaveBeenCalledWith(2, 1, expect.anything());
 	});
 
 	test('should execute callback when computed value changes', () => {
@@ -34,7 +40,7 @@ describe('Observer', () => {
 
 		state.value = 2;
 
-		expect(mockCallback).toHaveBeenCalledWith(4);
+		expect(mockCallback).toHaveBeenCalledWith(4, 2, expect.anything());
 	});
 
 	test('should not execute callback for same value', () => {
@@ -76,8 +82,8 @@ describe('Observer', () => {
 
 		state.value = 2;
 
-		expect(mockCallback1).toHaveBeenCalledWith(2);
-		expect(mockCallback2).toHaveBeenCalledWith(2);
+		expect(mockCallback1).toHaveBeenCalledWith(2, 1, expect.anything());
+		expect(mockCallback2).toHaveBeenCalledWith(2, 1, expect.anything());
 	});
 
 	test('disposing one observer does not affect others', () => {
@@ -96,7 +102,7 @@ describe('Observer', () => {
 		state.value = 2;
 
 		expect(mockCallback1).not.toHaveBeenCalled();
-		expect(mockCallback2).toHaveBeenCalledWith(2);
+		expect(mockCallback2).toHaveBeenCalledWith(2, 1, expect.anything());
 	});
 
 	test('should automatically cause computed to eager update', () => {
@@ -118,7 +124,244 @@ describe('Observer', () => {
 
 		state.value = 3;
 
-		expect(mockCallback).toHaveBeenCalledWith(6); // Should be 3 * 2
+		expect(mockCallback).toHaveBeenCalledWith(6, 2, expect.anything()); // Should be 3 * 2
 		expect(computed_count).toBe(2); // Should have recomputed once
 	});
+
+	describe('effect', () => {
+		test('should run immediately', () => {
+			const mockEffect = jest.fn();
+
+			Observer.effect(mockEffect);
+
+			expect(mockEffect).toHaveBeenCalledTimes(1);
+		});
+
+		test('should re-run when a used state changes', () => {
+			const state = new State(1);
+			const seen: number[] = [];
+
+			Observer.effect(() => {
+				seen.push(state.use());
+			});
+
+			state.value = 2;
+			state.value = 3;
+
+			expect(seen).toEqual([1, 2, 3]);
+		});
+
+		test('should track computeds and reactive lists', () => {
+			const list = new ReactiveList<number>([1, 2]);
+			const multiplier = new State(1);
+			const total = new Computed(() => list.use().reduce((sum, x) => sum + x, 0) * multiplier.use());
+			const seen: Array<[number, number]> = [];
+
+			Observer.effect(() => {
+				seen.push([total.use(), list.length]);
+			});
+
+			list.add(3);
+			multiplier.value = 2;
+
+			expect(seen).toEqual([[3, 2], [6, 3], [12, 3]]);
+		});
+
+		test('should re-collect dynamic dependencies on each run', () => {
+			const useA = new State(true);
+			const a = new State('a');
+			const b = new State('b');
+			const mockEffect = jest.fn(() => {
+				useA.use() ? a.use() : b.use();
+			});
+
+			Observer.effect(mockEffect);
+			useA.value = false;
+			mockEffect.mockClear();
+
+			a.value = 'x';
+			expect(mockEffect).not.toHaveBeenCalled();
+
+			b.value = 'y';
+			expect(mockEffect).toHaveBeenCalledTimes(1);
+		});
+
+		test('should run once per batch', () => {
+			const a = new State(1);
+			const b = new State(2);
+			const mockEffect = jest.fn(() => {
+				a.use();
+				b.use();
+			});
+
+			Observer.effect(mockEffect);
+			mockEffect.mockClear();
+
+			batch(() => {
+				a.value = 10;
+				b.value = 20;
+			});
+
+			expect(mockEffect).toHaveBeenCalledTimes(1);
+		});
+
+		test('should run the cleanup before the next run', () => {
+			const state = new State(1);
+			const events: string[] = [];
+
+			Observer.effect(() => {
+				const value = state.use();
+				events.push(`run ${value}`);
+				return () => events.push(`cleanup ${value}`);
+			});
+
+			state.value = 2;
+
+			expect(events).toEqual(['run 1', 'cleanup 1', 'run 2']);
+		});
+
+		test('should run the cleanup and stop running when disposed', () => {
+			const state = new State(1);
+			const mockEffect = jest.fn();
+			const mockCleanup = jest.fn();
+
+			const observer = Observer.effect(() => {
+				mockEffect(state.use());
+				return mockCleanup;
+			});
+			mockEffect.mockClear();
+
+			observer.dispose();
+			expect(mockCleanup).toHaveBeenCalledTimes(1);
+
+			state.value = 2;
+			expect(mockEffect).not.toHaveBeenCalled();
+			expect(mockCleanup).toHaveBeenCalledTimes(1);
+		});
+
+		test('should allow the effect to write to state it does not read', () => {
+			const source = new State(1);
+			const target = new State(0);
+
+			Observer.effect(() => {
+				target.set(source.use() * 2);
+			});
+
+			source.value = 5;
+
+			expect(target.value).toBe(10);
+		});
+
+		test('should keep the dependencies read before the effect threw, so dispose can release them', () => {
+			const a = new State(0);
+			const b = new State('b');
+			const observer = Observer.effect(() => {
+				if (a.use() === 1) {
+					b.use();
+					throw new Error("Effect failed.");
+				}
+			});
+
+			expect(() => a.set(1)).toThrow('Effect failed.');
+			expect(getDependencies(observer)).toEqual([a, b]);
+
+			observer.dispose();
+			expect(getDependents(a)).toHaveLength(0);
+			expect(getDependents(b)).toHaveLength(0);
+		});
+
+		test('should run again after throwing once a dependency changes', () => {
+			const a = new State(1);
+			const mockEffect = jest.fn(() => {
+				if (a.use() === 1) {
+					throw new Error("Effect failed.");
+				}
+			});
+
+			expect(() => Observer.effect(mockEffect)).toThrow('Effect failed.');
+			a.set(2);
+
+			expect(mockEffect).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('watch change info', () => {
+		test('should call back initially with only the current value', () => {
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			Observer.watch(state, mockCallback);
+
+			expect(mockCallback).toHaveBeenCalledWith(1);
+		});
+
+		test('should pass the previous value and the source on changes', () => {
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			Observer.watch(state, mockCallback);
+			state.value = 2;
+
+			expect(mockCallback).toHaveBeenLastCalledWith(2, 1, { source: state });
+		});
+
+		test('should report the value before the first coalesced change when deferred', () => {
+			const scheduler = Scheduler.manual();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			Observer.watch(state, mockCallback, { scheduler });
+			mockCallback.mockClear();
+
+			state.value = 2;
+			state.value = 3;
+			scheduler.flush();
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(3, 1, { source: state });
+		});
+
+		test('should report every coalesced list mutation when deferred', () => {
+			const scheduler = Scheduler.manual();
+			const list = new ReactiveList([1]);
+			const mockCallback = jest.fn();
+
+			Observer.watch(list, mockCallback, { scheduler });
+			mockCallback.mockClear();
+
+			list.add(2);
+			list.insert(0, 0);
+			scheduler.flush();
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith([0, 1, 2], [1], {
+				source: list,
+				kind: 'insert',
+				mutations: [
+					{ kind: 'add', index: 1, added: [2], removed: [] },
+					{ kind: 'insert', index: 0, added: [0], removed: [] }
+				]
+			});
+		});
+
+		test('should report every coalesced map and set change when deferred', () => {
+			const scheduler = Scheduler.manual();
+			const map = new ReactiveMap<string, number>();
+			const set = new ReactiveSet<string>();
+			const mapCallback = jest.fn();
+			const setCallback = jest.fn();
+
+			Observer.watch(map, mapCallback, { scheduler });
+			Observer.watch(set, setCallback, { scheduler });
+
+			map.set('a', 1);
+			map.set('b', 2);
+			set.add('x');
+			set.add('y');
+			scheduler.flush();
+
+			expect(mapCallback.mock.calls[1][2].changes.map((change: { key: string }) => change.key)).toEqual(['a', 'b']);
+			expect(setCallback.mock.calls[1][2].changes.map((change: { item: string }) => change.item)).toEqual(['x', 'y']);
+		});
+	});
 });
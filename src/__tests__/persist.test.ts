@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { persist } from '../persist';
+import { Codec, ICodec } from '../codec';
+import { StorageAdapter, IStorageAdapter, StorageLike } from '../storage';
+import { State } from '../state';
+import { ReactiveList } from '../reactive-list';
+import { Scope } from '../scope';
+import { Scheduler } from '../scheduler';
+import { batch } from '../core';
+
+describe('Codec', () => {
+	test('json() should round-trip Dates, Maps and Sets, including nested ones', () => {
+		const codec = Codec.json<unknown>();
+		const value = {
+			created: new Date('2024-01-02T03:04:05.000Z'),
+			scores: new Map([['alice', new Set([1, 2])]]),
+			tags: new Set(['a']),
+			plain: [1, 'two', null]
+		};
+
+		expect(codec.decode(codec.encode(value))).toEqual(value);
+	});
+
+	test('json() should accept custom types', () => {
+		class Point {
+			constructor(public x: number, public y: number) {}
+		}
+		const codec = Codec.json<Point[]>([...Codec.defaultTypes, {
+			type: 'Point',
+			test: (value): value is Point => value instanceof Point,
+			encode: (point: Point) => [point.x, point.y],
+			decode: ([x, y]: [number, number]) => new Point(x, y)
+		}]);
+
+		const decoded = codec.decode(codec.encode([new Point(1, 2)]));
+		expect(decoded[0]).toBeInstanceOf(Point);
+		expect(decoded[0]).toEqual(new Point(1, 2));
+	});
+
+	test('json() should round-trip objects of your own that have a $type key', () => {
+		const codec = Codec.json<unknown>();
+		const value = {
+			lookalike: { $type: 'Date', value: 'x' },
+			escapedLookalike: { $$type: 'Set', value: [1] },
+			nested: new Map([['k', { $type: 'Map', value: [] }]]),
+			list: [{ $type: 'unknown' }],
+			when: new Date('2024-01-02T03:04:05.000Z')
+		};
+
+		const decoded = codec.decode(codec.encode(value));
+
+		expect(decoded).toEqual(value);
+		expect(codec.decode(codec.encode({ $type: 'Date', value: 'x' }))).toEqual({ $type: 'Date', value: 'x' });
+	});
+
+	test('json() without types should store plain JSON', () => {
+		const codec = Codec.json<{ at: Date }>([]);
+		expect(codec.encode({ at: new Date('2024-01-01T00:00:00.000Z') })).toBe('{"at":"2024-01-01T00:00:00.000Z"}');
+	});
+});
+
+describe('StorageAdapter', () => {
+	test('memory() should keep data per key', () => {
+		const storage = StorageAdapter.memory();
+		expect(storage.read('a')).toBeNull();
+
+		storage.write('a', '1');
+		expect(storage.read('a')).toBe('1');
+
+		storage.remove('a');
+		expect(storage.read('a')).toBeNull();
+	});
+
+	test('local() should use the given Web Storage object', () => {
+		const items = new Map<string, string>();
+		const webStorage: StorageLike = {
+			getItem: key => items.get(key) ?? null,
+			setItem: (key, value) => items.set(key, value),
+			removeItem: key => items.delete(key)
+		};
+		const storage = StorageAdapter.local(webStorage);
+
+		storage.write('a', '1');
+		expect(items.get('a')).toBe('1');
+		expect(storage.read('a')).toBe('1');
+		storage.remove('a');
+		expect(items.has('a')).toBe(false);
+	});
+
+	test('local() should fail when there is no localStorage', () => {
+		expect(() => StorageAdapter.local().read('a')).toThrow('localStorage is not available');
+	});
+
+	test('jsonFile() should keep each key in its own file', () => {
+		const directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'reactor-')), 'data');
+		try {
+			const storage = StorageAdapter.jsonFile(directory);
+			expect(storage.read('user/settings')).toBeNull();
+
+			storage.write('user/settings', '{"theme":"dark"}');
+			expect(fs.readdirSync(directory)).toEqual(['user%2Fsettings.json']);
+			expect(storage.read('user/settings')).toBe('{"theme":"dark"}');
+
+			storage.remove('user/settings');
+			expect(storage.read('user/settings')).toBeNull();
+		} finally {
+			fs.rmSync(path.dirname(directory), { recursive: true, force: true });
+		}
+	});
+});
+
+describe('persist', () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	test('should load the stored value on creation', () => {
+		const storage = StorageAdapter.memory();
+		storage.write('count', '5');
+		const count = new State(0);
+
+		const persisted = persist(count, { key: 'count', storage });
+		expect(count.value).toBe(5);
+		expect(persisted.status.value).toBe('ready');
+	});
+
+	test('should keep the current value when nothing is stored', () => {
+		const count = new State(3);
+		const persisted = persist(count, { key: 'count', storage: StorageAdapter.memory() });
+
+		expect(count.value).toBe(3);
+		expect(persisted.status.value).toBe('ready');
+	});
+
+	test('should not write back the value it loaded', () => {
+		const storage = StorageAdapter.memory();
+		storage.write('count', '5');
+		const write = jest.spyOn(storage, 'write');
+
+		persist(new State(0), { key: 'count', storage, debounce: 0 });
+		expect(write).not.toHaveBeenCalled();
+	});
+
+	test('should not write back the value it loaded inside a batch', () => {
+		const storage = StorageAdapter.memory();
+		storage.write('count', '5');
+		const write = jest.spyOn(storage, 'write');
+		const count = new State(0);
+
+		batch(() => {
+			persist(count, { key: 'count', storage, debounce: 0 });
+		});
+
+		expect(count.value).toBe(5);
+		expect(write).not.toHaveBeenCalled();
+
+		count.set(6);
+		expect(write).toHaveBeenCalledWith('count', '6');
+	});
+
+	test('should not write back the value it loaded with a deferred scheduler', () => {
+		const scheduler = Scheduler.manual();
+		Scheduler.default = scheduler;
+		try {
+			const storage = StorageAdapter.memory();
+			storage.write('items', '[1,2]');
+			const write = jest.spyOn(storage, 'write');
+			const items = new ReactiveList<number>();
+
+			persist(items, { key: 'items', storage, debounce: 0 });
+			scheduler.flush();
+
+			expect(items.value).toEqual([1, 2]);
+			expect(write).not.toHaveBeenCalled();
+
+			items.add(3);
+			scheduler.flush();
+			expect(write).toHaveBeenCalledWith('items', '[1,2,3]');
+		} finally {
+			Scheduler.default = Scheduler.sync;
+		}
+	});
+
+	test('should write changes once they stop arriving for the debounce delay', () => {
+		jest.useFakeTimers();
+		const storage = StorageAdapter.memory();
+		const write = jest.spyOn(storage, 'write');
+		const count = new State(0);
+		const persisted = persist(count, { key: 'count', storage, debounce: 50 });
+
+		count.set(1);
+		jest.advanceTimersByTime(30);
+		count.set(2);
+		jest.advanceTimersByTime(30);
+		expect(write).not.toHaveBeenCalled();
+		expect(persisted.hasPendingSave).toBe(true);
+
+		jest.advanceTimersByTime(20);
+		expect(write).toHaveBeenCalledTimes(1);
+		expect(storage.read('count')).toBe('2');
+	});
+
+	test('flush() should write a pending change at once', async () => {
+		jest.useFakeTimers();
+		const storage = StorageAdapter.memory();
+		const count = new State(0);
+		const persisted = persist(count, { key: 'count', storage });
+
+		count.set(7);
+		await persisted.flush();
+		expect(storage.read('count')).toBe('7');
+		expect(persisted.hasPendingSave).toBe(false);
+	});
+
+	test('should persist lists and rich values through the codec', () => {
+		const storage = StorageAdapter.memory();
+		const events = new ReactiveList<{ at: Date }>();
+		persist(events, { key: 'events', storage, debounce: 0 });
+		events.add({ at: new Date('2024-05-06T00:00:00.000Z') });
+
+		const restored = new ReactiveList<{ at: Date }>();
+		persist(restored, { key: 'events', storage });
+		expect(restored.value[0].at).toBeInstanceOf(Date);
+		expect(restored.value).toEqual(events.value);
+	});
+
+	test('should use a custom codec', () => {
+		const storage = StorageAdapter.memory();
+		const codec: ICodec<number> = {
+			encode: value => value.toString(16),
+			decode: data => parseInt(data, 16)
+		};
+		const count = new State(0);
+		persist(count, { key: 'count', storage, codec, debounce: 0 });
+
+		count.set(255);
+		expect(storage.read('count')).toBe('ff');
+	});
+
+	test('should report load errors through status instead of throwing', () => {
+		const storage = StorageAdapter.memory();
+		storage.write('count', 'not json');
+		const count = new State(1);
+
+		const persisted = persist(count, { key: 'count', storage });
+		expect(count.value).toBe(1);
+		expect(persisted.status.value).toBe('error');
+		expect(persisted.error.value).toBeInstanceOf(SyntaxError);
+	});
+
+	test('should report save errors through status instead of throwing from set()', () => {
+		const storage: IStorageAdapter = {
+			read: () => null,
+			write: () => {
+				throw new Error('disk full');
+			},
+			remove: () => {}
+		};
+		const count = new State(0);
+		const persisted = persist(count, { key: 'count', storage, debounce: 0 });
+
+		expect(() => count.set(1)).not.toThrow();
+		expect(persisted.status.value).toBe('error');
+		expect((persisted.error.value as Error).message).toBe('disk full');
+	});
+
+	test('should work with asynchronous storage', async () => {
+		const data = new Map<string, string>([['count', '4']]);
+		const storage: IStorageAdapter = {
+			read: async key => data.get(key) ?? null,
+			write: async (key, value) => {
+				data.set(key, value);
+			},
+			remove: async key => {
+				data.delete(key);
+			}
+		};
+		const count = new State(0);
+		const persisted = persist(count, { key: 'count', storage, debounce: 0 });
+		expect(persisted.status.value).toBe('loading');
+
+		await persisted.load();
+		expect(count.value).toBe(4);
+		expect(persisted.status.value).toBe('ready');
+
+		count.set(9);
+		expect(persisted.status.value).toBe('saving');
+		await persisted.save();
+		expect(data.get('count')).toBe('9');
+		expect(persisted.status.value).toBe('ready');
+	});
+
+	test('should not overwrite a change made while loading', async () => {
+		let resolveRead: (data: string | null) => void = () => {};
+		const storage: IStorageAdapter = {
+			read: () => new Promise(resolve => {
+				resolveRead = resolve;
+			}),
+			write: () => {},
+			remove: () => {}
+		};
+		const count = new State(0);
+		persist(count, { key: 'count', storage, debounce: 0 });
+
+		count.set(2);
+		resolveRead('5');
+		await Promise.resolve();
+		await Promise.resolve();
+		expect(count.value).toBe(2);
+	});
+
+	test('clear() should remove the stored value', async () => {
+		const storage = StorageAdapter.memory();
+		storage.write('count', '5');
+		const persisted = persist(new State(0), { key: 'count', storage });
+
+		await persisted.clear();
+		expect(storage.read('count')).toBeNull();
+	});
+
+	test('dispose() should stop writing and leave the scope', () => {
+		const scope = new Scope();
+		const storage = StorageAdapter.memory();
+		const count = new State(0);
+		persist(count, { key: 'count', storage, debounce: 0, scope });
+
+		scope.dispose();
+		count.set(1);
+		expect(storage.read('count')).toBeNull();
+		expect(count.getListenerCount()).toBe(0);
+	});
+});
@@ -0,0 +1,156 @@
+import { State } from '../state';
+import { Computed } from '../computed';
+import { Observer } from '../observer';
+import { Profiler, ProfileEntry } from '../profiler';
+import { AsyncComputed } from '../async-computed';
+import { Spring } from '../spring';
+import { Clock } from '../clock';
+
+/**
+ * Finds the entry for the node with the given name.
+ */
+function entryNamed(entries: ProfileEntry[], name: string): ProfileEntry {
+	const entry = entries.find(candidate => candidate.name === name);
+	if (!entry) {
+		throw new Error(`No entry named ${name}`);
+	}
+	return entry;
+}
+
+describe('Profiler', () => {
+	afterEach(() => {
+		Profiler.stop();
+	});
+
+	test('should count recomputations and invalidations of computeds', () => {
+		const count = new State(0);
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		doubled.onChange(() => {});
+
+		const report = Profiler.profile(() => {
+			for (let i = 1; i <= 5; i++) {
+				count.set(i);
+			}
+		});
+
+		const entry = entryNamed(report.entries, 'doubled');
+		expect(entry.type).toBe('Computed');
+		expect(entry.invalidations).toBe(5);
+		expect(entry.recomputations).toBe(5);
+		expect(entry.equalResults).toBe(0);
+		expect(entry.totalTime).toBeGreaterThanOrEqual(entry.maxTime);
+	});
+
+	test('should count invalidations that resulted in equal values', () => {
+		const count = new State(1);
+		const sign = new Computed(() => Math.sign(count.use()), { name: 'sign' });
+		const label = new Computed(() => sign.use() > 0 ? 'positive' : 'negative', { name: 'label' });
+		label.onChange(() => {});
+
+		const report = Profiler.profile(() => {
+			count.set(2);
+			count.set(3);
+		});
+
+		const signEntry = entryNamed(report.entries, 'sign');
+		const labelEntry = entryNamed(report.entries, 'label');
+		expect(signEntry.recomputations).toBe(2);
+		expect(signEntry.equalResults).toBe(2);
+		expect(labelEntry.recomputations).toBe(0);
+		expect(labelEntry.equalResults).toBe(2);
+	});
+
+	test('should measure observer callbacks and effects', () => {
+		const count = new State(0);
+		Observer.watch(count, () => {}, { name: 'watcher' });
+		Observer.effect(() => { count.use(); }, { name: 'effect' });
+
+		const report = Profiler.profile(() => {
+			count.set(1);
+			count.set(2);
+		});
+
+		expect(entryNamed(report.entries, 'watcher').recomputations).toBe(2);
+		expect(entryNamed(report.entries, 'watcher').type).toBe('Observer');
+		expect(entryNamed(report.entries, 'effect').recomputations).toBe(2);
+		expect(entryNamed(report.entries, 'effect').invalidations).toBe(2);
+	});
+
+	test('should report fan-out', () => {
+		const count = new State(0);
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		new Computed(() => doubled.use() + 1).onChange(() => {});
+		doubled.onChange(() => {});
+		Observer.watch(doubled, () => {});
+
+		const report = Profiler.profile(() => count.set(1));
+
+		// One dependent computed, one watch observer, plus two listeners (onChange and the observer's)
+		expect(entryNamed(report.entries, 'doubled').fanOut).toBe(4);
+	});
+
+	test('should not measure anything outside the profiled block', () => {
+		const count = new State(0);
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		doubled.onChange(() => {});
+
+		const report = Profiler.profile(() => count.set(1));
+		count.set(2);
+
+		expect(entryNamed(report.entries, 'doubled').recomputations).toBe(1);
+		expect(Profiler.isProfiling).toBe(false);
+	});
+
+	test('should stop profiling when the block throws', () => {
+		expect(() => Profiler.profile(() => {
+			throw new Error('failed');
+		})).toThrow('failed');
+		expect(Profiler.isProfiling).toBe(false);
+	});
+
+	test('should report the parts of async computeds and springs as their owner, not as rows of their own', async () => {
+		const id = new State(1);
+		const user = new AsyncComputed(async () => `user ${id.use()}`, { name: 'user' });
+		Observer.watch(user.status, () => {});
+		Observer.watch(user.error, () => {});
+		await new Promise(resolve => setTimeout(resolve, 0));
+
+		const clock = Clock.manual();
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock, name: 'position' });
+		Observer.watch(spring.velocity, () => {});
+
+		Profiler.start();
+		id.set(2);
+		goal.set(10);
+		clock.tick(1 / 60);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		const report = Profiler.stop();
+
+		expect(report.entries.filter(entry => entry.type === 'Computed' || entry.type === 'State')).toEqual([]);
+		expect(entryNamed(report.entries, 'user').recomputations).toBe(1);
+		expect(Profiler.format(report)).not.toMatch(/^Computed\s/m);
+	});
+
+	test('should sort entries by total time and format them as a table', () => {
+		const count = new State(0);
+		const slow = new Computed(() => {
+			const end = Date.now() + 5;
+			while (Date.now() < end) {
+				// Busy wait
+			}
+			return count.use();
+		}, { name: 'slow' });
+		const fast = new Computed(() => count.use(), { name: 'fast' });
+		slow.onChange(() => {});
+		fast.onChange(() => {});
+
+		const report = Profiler.profile(() => count.set(1));
+		const lines = Profiler.format(report).split('\n');
+
+		expect(report.entries[0].name).toBe('slow');
+		expect(lines[0]).toMatch(/^name\s+type\s+invalidations\s+recomputations\s+equal\s+total ms\s+max ms\s+fan-out$/);
+		expect(lines[1]).toMatch(/^slow\s+Computed\s+1\s+1\s+0\s+\d+\.\d\d\s+\d+\.\d\d\s+1$/);
+		expect(lines.length).toBe(3);
+	});
+});
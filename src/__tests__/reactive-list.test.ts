@@ -1,6 +1,8 @@
 import { ReactiveList } from '../reactive-list';
 import { Computed } from '../computed';
 import { Observer } from '../observer';
+import { batch } from '../core';
+import { Scope } from '../scope';
 
 describe('ReactiveList', () => {
 	// Basic functionality tests
@@ -108,7 +110,7 @@ describe('ReactiveList', () => {
 		list.onChange(mockCallback);
 		list.add(3);
 
-		expect(mockCallback).toHaveBeenCalledWith([1, 2, 3]);
+		expect(mockCallback).toHaveBeenCalledWith([1, 2, 3], [1, 2], expect.anything());
 	});
 
 	test('observer should be notified when items change', () => {
@@ -119,7 +121,7 @@ describe('ReactiveList', () => {
 		mockCallback.mockClear(); // Clear the initial call
 
 		list.add('c');
-		expect(mockCallback).toHaveBeenCalledWith(['a', 'b', 'c']);
+		expect(mockCallback).toHaveBeenCalledWith(['a', 'b', 'c'], ['a', 'b'], expect.anything());
 	});
 
 	test('onChange() should return a function that removes the listener', () => {
@@ -211,6 +213,23 @@ describe('ReactiveList', () => {
 	});
 
 	// Tests for item-specific listeners
+	test('map() and filter() should pass options to the computed', () => {
+		const list = new ReactiveList([1, 2, 3]);
+		const scope = new Scope();
+		const evens = list.filter(x => x % 2 === 0, { name: 'evens', autoDispose: true });
+		const labels = list.map(x => `#${x}`, { scope });
+
+		expect(evens.name).toBe('evens');
+
+		const unsubscribe = evens.onChange(() => {});
+		unsubscribe();
+		expect(evens.isDisposed).toBe(true);
+
+		scope.dispose();
+		expect(labels.isDisposed).toBe(true);
+		expect(list.getDependents()).toEqual([]);
+	});
+
 	describe('onItemAdded', () => {
 		test('should notify when an item is added', () => {
 			const list = new ReactiveList<number>([1, 2]);
@@ -334,6 +353,47 @@ describe('ReactiveList', () => {
 		});
 	});
 
+	describe('onMutation', () => {
+		test('should report every mutation as it is applied, even inside a batch', () => {
+			const list = new ReactiveList<string>(['a', 'b']);
+			const mockCallback = jest.fn();
+			list.onMutation(mockCallback);
+
+			batch(() => {
+				list.add('c');
+				expect(mockCallback).toHaveBeenCalledTimes(1);
+				list.update(0, 'z');
+			});
+
+			expect(mockCallback.mock.calls).toEqual([
+				[{ kind: 'add', index: 2, added: ['c'], removed: [] }],
+				[{ kind: 'update', index: 0, added: ['z'], removed: ['a'] }]
+			]);
+		});
+
+		test('should report the mutation as it came out of the interceptors', () => {
+			const list = new ReactiveList<string>(['a']);
+			const mockCallback = jest.fn();
+			list.intercept((mutation, next) => next({ ...mutation, index: 0 }));
+			list.onMutation(mockCallback);
+
+			list.add('b');
+
+			expect(mockCallback).toHaveBeenCalledWith({ kind: 'add', index: 0, added: ['b'], removed: [] });
+		});
+
+		test('should stop reporting once the callback is removed', () => {
+			const list = new ReactiveList<number>();
+			const mockCallback = jest.fn();
+			const removeListener = list.onMutation(mockCallback);
+
+			removeListener();
+			list.add(1);
+
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('integration tests for onItemAdded and onItemRemoved', () => {
 		test('both types of listeners should work simultaneously', () => {
 			const list = new ReactiveList<number>([1, 2, 3]);
@@ -360,4 +420,71 @@ describe('ReactiveList', () => {
 			expect(addMock).toHaveBeenCalledWith(4, 2);
 		});
 	});
+
+	describe('change info', () => {
+		test('should pass the previous items, the source and the mutation kind', () => {
+			const list = new ReactiveList([1, 2]);
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+
+			list.insert(0, 0);
+
+			expect(mockCallback).toHaveBeenCalledWith([0, 1, 2], [1, 2], {
+				source: list,
+				kind: 'insert',
+				mutations: [{ kind: 'insert', index: 0, added: [0], removed: [] }]
+			});
+		});
+
+		test('should describe each kind of mutation', () => {
+			const list = new ReactiveList(['a', 'b', 'c']);
+			const mutations: unknown[] = [];
+			list.onChange((items, previousItems, info) => mutations.push(...info.mutations));
+
+			list.add('d');
+			list.update(0, 'A');
+			list.remove('b');
+			list.removeAt(0);
+			list.replace(['x', 'y']);
+			list.clear();
+
+			expect(mutations).toEqual([
+				{ kind: 'add', index: 3, added: ['d'], removed: [] },
+				{ kind: 'update', index: 0, added: ['A'], removed: ['a'] },
+				{ kind: 'remove', index: 1, added: [], removed: ['b'] },
+				{ kind: 'remove', index: 0, added: [], removed: ['A'] },
+				{ kind: 'replace', index: 0, added: ['x', 'y'], removed: ['c', 'd'] },
+				{ kind: 'clear', index: 0, added: [], removed: ['x', 'y'] }
+			]);
+		});
+
+		test('should collect every mutation made within a batch', () => {
+			const list = new ReactiveList([1]);
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+
+			batch(() => {
+				list.add(2);
+				list.removeAt(0);
+			});
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			const [items, previousItems, info] = mockCallback.mock.calls[0];
+			expect(items).toEqual([2]);
+			expect(previousItems).toEqual([1]);
+			expect(info.kind).toBe('remove');
+			expect(info.mutations.map((mutation: { kind: string }) => mutation.kind)).toEqual(['add', 'remove']);
+		});
+
+		test('should deliver copies that later mutations do not change', () => {
+			const list = new ReactiveList([1]);
+			const deliveries: Array<[number[], number[]]> = [];
+			list.onChange((items, previousItems) => deliveries.push([items, previousItems]));
+
+			list.add(2);
+			list.add(3);
+
+			expect(deliveries).toEqual([[[1, 2], [1]], [[1, 2, 3], [1, 2]]]);
+		});
+	});
 });
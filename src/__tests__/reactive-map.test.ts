@@ -0,0 +1,207 @@
+import { ReactiveMap } from '../reactive-map';
+import { Computed } from '../computed';
+import { Scope } from '../scope';
+import { batch } from '../core';
+import { getDependents } from '../graph';
+
+describe('ReactiveMap', () => {
+	test('should initialize with the provided entries', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		expect(map.value).toEqual(new Map([['a', 1], ['b', 2]]));
+		expect(map.size).toBe(2);
+	});
+
+	test('get(), has(), set() and delete() should work like a Map', () => {
+		const map = new ReactiveMap<string, number>();
+		map.set('a', 1);
+		expect(map.get('a')).toBe(1);
+		expect(map.has('a')).toBe(true);
+
+		expect(map.delete('a')).toBe(true);
+		expect(map.delete('a')).toBe(false);
+		expect(map.has('a')).toBe(false);
+		expect(map.get('a')).toBeUndefined();
+	});
+
+	test('clear() should remove all entries', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		map.clear();
+		expect(map.size).toBe(0);
+	});
+
+	test('value should be a copy of the entries', () => {
+		const map = new ReactiveMap([['a', 1]]);
+		map.value.set('b', 2);
+		expect(map.has('b')).toBe(false);
+	});
+
+	test('set() with a Map should replace all entries', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		map.set(new Map([['b', 3], ['c', 4]]));
+		expect(map.entries()).toEqual([['b', 3], ['c', 4]]);
+	});
+
+	// Per-key tracking tests
+	test('a computed reading one key should not recompute when another key changes', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		const compute = jest.fn(() => map.get('a'));
+		const a = new Computed(compute);
+
+		expect(a.value).toBe(1);
+		map.set('b', 20);
+		map.set('c', 30);
+		map.delete('b');
+		expect(a.value).toBe(1);
+		expect(compute).toHaveBeenCalledTimes(1);
+
+		map.set('a', 10);
+		expect(a.value).toBe(10);
+		expect(compute).toHaveBeenCalledTimes(2);
+	});
+
+	test('has() should track adding and deleting the key', () => {
+		const map = new ReactiveMap<string, number>();
+		const hasA = new Computed(() => map.has('a'));
+
+		expect(hasA.value).toBe(false);
+		map.set('a', 1);
+		expect(hasA.value).toBe(true);
+		map.delete('a');
+		expect(hasA.value).toBe(false);
+	});
+
+	test('setting an equal value should not invalidate readers', () => {
+		const map = new ReactiveMap([['a', { id: 1 }]], { equals: 'shallow' });
+		const compute = jest.fn(() => map.get('a'));
+		const a = new Computed(compute);
+
+		a.value;
+		map.set('a', { id: 1 });
+		a.value;
+		expect(compute).toHaveBeenCalledTimes(1);
+	});
+
+	test('size and keys() should only be invalidated when keys are added or removed', () => {
+		const map = new ReactiveMap([['a', 1]]);
+		const compute = jest.fn(() => map.keys());
+		const keys = new Computed(compute);
+		const size = new Computed(() => map.size);
+
+		expect(keys.value).toEqual(['a']);
+		map.set('a', 2);
+		expect(keys.value).toEqual(['a']);
+		expect(compute).toHaveBeenCalledTimes(1);
+
+		map.set('b', 3);
+		expect(keys.value).toEqual(['a', 'b']);
+		expect(size.value).toBe(2);
+		map.delete('a');
+		expect(keys.value).toEqual(['b']);
+		expect(size.value).toBe(1);
+	});
+
+	test('values() and use() should track every change', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		const total = new Computed(() => map.values().reduce((sum, value) => sum + value, 0));
+		const count = new Computed(() => map.use().size);
+
+		expect(total.value).toBe(3);
+		map.set('b', 5);
+		expect(total.value).toBe(6);
+		map.set('c', 1);
+		expect(total.value).toBe(7);
+		expect(count.value).toBe(3);
+	});
+
+	// Event tests
+	test('onKeyAdded, onKeyChanged and onKeyRemoved should fire for each key', () => {
+		const map = new ReactiveMap([['a', 1]]);
+		const added = jest.fn();
+		const changed = jest.fn();
+		const removed = jest.fn();
+		map.onKeyAdded(added);
+		map.onKeyChanged(changed);
+		const unsubscribe = map.onKeyRemoved(removed);
+
+		map.set('b', 2);
+		map.set('a', 3);
+		map.set('a', 3);
+		map.delete('a');
+
+		expect(added).toHaveBeenCalledWith('b', 2);
+		expect(changed).toHaveBeenCalledTimes(1);
+		expect(changed).toHaveBeenCalledWith('a', 3, 1);
+		expect(removed).toHaveBeenCalledWith('a', 3);
+
+		unsubscribe();
+		map.delete('b');
+		expect(removed).toHaveBeenCalledTimes(1);
+	});
+
+	test('onChange should receive the new entries, the previous entries and the key changes', () => {
+		const map = new ReactiveMap([['a', 1]]);
+		const callback = jest.fn();
+		map.onChange(callback);
+
+		map.set('a', 2);
+		expect(callback).toHaveBeenCalledWith(
+			new Map([['a', 2]]),
+			new Map([['a', 1]]),
+			{ source: map, changes: [{ kind: 'update', key: 'a', value: 2, previousValue: 1 }] }
+		);
+	});
+
+	test('onChange should be called once per batch', () => {
+		const map = new ReactiveMap<string, number>();
+		const callback = jest.fn();
+		map.onChange(callback);
+
+		batch(() => {
+			map.set('a', 1);
+			map.set('b', 2);
+			map.delete('a');
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback.mock.calls[0][0]).toEqual(new Map([['b', 2]]));
+		expect(callback.mock.calls[0][2].changes.map((change: any) => change.kind)).toEqual(['add', 'add', 'delete']);
+	});
+
+	test('clear() should notify once', () => {
+		const map = new ReactiveMap([['a', 1], ['b', 2]]);
+		const callback = jest.fn();
+		map.onChange(callback);
+
+		map.clear();
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	// Lifecycle tests
+	test('getDependents() should include readers of single keys and of the keys', () => {
+		const map = new ReactiveMap([['a', 1]]);
+		const a = new Computed(() => map.get('a'));
+		const size = new Computed(() => map.size);
+		const all = new Computed(() => map.use());
+		a.value;
+		size.value;
+		all.value;
+
+		expect(getDependents(map)).toEqual(expect.arrayContaining([all, size, a]));
+		expect(getDependents(map)).toHaveLength(3);
+
+		a.dispose();
+		expect(getDependents(map)).toHaveLength(2);
+	});
+
+	test('dispose() should drop listeners and leave the scope', () => {
+		const scope = new Scope();
+		const map = new ReactiveMap([['a', 1]], { scope });
+		const callback = jest.fn();
+		map.onChange(callback);
+
+		scope.dispose();
+		map.set('a', 2);
+		expect(callback).not.toHaveBeenCalled();
+		expect(map.getListenerCount()).toBe(0);
+	});
+});
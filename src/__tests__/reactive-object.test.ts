@@ -0,0 +1,214 @@
+import { reactive, shallowReactive, toRaw, isReactive, ReactiveObject } from '../reactive-object';
+import { Computed } from '../computed';
+import { Observer } from '../observer';
+import { getDependents } from '../graph';
+
+describe('reactive', () => {
+	test('should read and write through to the underlying object', () => {
+		const raw = { count: 1 };
+		const obj = reactive(raw);
+
+		obj.count = 2;
+		expect(obj.count).toBe(2);
+		expect(raw.count).toBe(2);
+	});
+
+	test('should return the same proxy for the same object', () => {
+		const raw = { nested: { value: 1 } };
+		const obj = reactive(raw);
+
+		expect(reactive(raw)).toBe(obj);
+		expect(reactive(obj)).toBe(obj);
+		expect(obj.nested).toBe(obj.nested);
+	});
+
+	test('should only allow plain objects and arrays', () => {
+		expect(() => reactive(new Date())).toThrow();
+		expect(() => reactive(new Map())).toThrow();
+		expect(() => reactive([1, 2])).not.toThrow();
+		expect(() => reactive(Object.create(null))).not.toThrow();
+	});
+
+	test('toRaw() and isReactive() should tell proxies from plain objects', () => {
+		const raw = { nested: { value: 1 } };
+		const obj = reactive(raw);
+
+		expect(isReactive(obj)).toBe(true);
+		expect(isReactive(obj.nested)).toBe(true);
+		expect(isReactive(raw)).toBe(false);
+		expect(toRaw(obj)).toBe(raw);
+		expect(toRaw(obj.nested)).toBe(raw.nested);
+		expect(toRaw(raw)).toBe(raw);
+		expect(toRaw(5)).toBe(5);
+	});
+
+	test('should store raw objects when proxies are assigned', () => {
+		const raw: { child?: { value: number } } = {};
+		const obj = reactive(raw);
+		obj.child = reactive({ value: 1 });
+
+		expect(isReactive(raw.child)).toBe(false);
+	});
+
+	// Property tracking tests
+	test('a computed should recompute when a property it read changes', () => {
+		const obj = reactive({ a: 1, b: 2 });
+		const compute = jest.fn(() => obj.a * 10);
+		const tenA = new Computed(compute);
+
+		expect(tenA.value).toBe(10);
+		obj.b = 3;
+		expect(tenA.value).toBe(10);
+		expect(compute).toHaveBeenCalledTimes(1);
+
+		obj.a = 2;
+		expect(tenA.value).toBe(20);
+		expect(compute).toHaveBeenCalledTimes(2);
+	});
+
+	test('writing an equal value should not notify', () => {
+		const obj = reactive({ a: 1 });
+		const compute = jest.fn(() => obj.a);
+		const a = new Computed(compute);
+
+		a.value;
+		obj.a = 1;
+		a.value;
+		expect(compute).toHaveBeenCalledTimes(1);
+	});
+
+	test('a computed reading a nested path should only depend on that path', () => {
+		const user = reactive({ name: 'Alex', address: { city: 'Paris', zip: '75001' } });
+		const compute = jest.fn(() => user.address.city);
+		const city = new Computed(compute);
+
+		expect(city.value).toBe('Paris');
+		user.name = 'Sam';
+		user.address.zip = '75002';
+		expect(city.value).toBe('Paris');
+		expect(compute).toHaveBeenCalledTimes(1);
+
+		user.address.city = 'London';
+		expect(city.value).toBe('London');
+
+		user.address = { city: 'Berlin', zip: '10115' };
+		expect(city.value).toBe('Berlin');
+	});
+
+	test('should notify readers of the keys when properties are added or deleted', () => {
+		const obj = reactive<Record<string, number>>({ a: 1 });
+		const keys = new Computed(() => Object.keys(obj));
+		const hasB = new Computed(() => 'b' in obj);
+
+		expect(keys.value).toEqual(['a']);
+		expect(hasB.value).toBe(false);
+
+		obj.b = 2;
+		expect(keys.value).toEqual(['a', 'b']);
+		expect(hasB.value).toBe(true);
+
+		delete obj.a;
+		expect(keys.value).toEqual(['b']);
+	});
+
+	test('should notify observers on nested writes', () => {
+		const state = reactive({ settings: { theme: 'light' } });
+		const callback = jest.fn();
+		Observer.effect(() => {
+			callback(state.settings.theme);
+		});
+
+		state.settings.theme = 'dark';
+		expect(callback).toHaveBeenLastCalledWith('dark');
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+
+	// Array tests
+	test('array mutators should notify readers of the length and items once', () => {
+		const list = reactive([1, 2, 3]);
+		const callback = jest.fn();
+		Observer.effect(() => {
+			callback(list.reduce((sum, item) => sum + item, 0));
+		});
+
+		list.push(4, 5);
+		expect(callback).toHaveBeenCalledTimes(2);
+		expect(callback).toHaveBeenLastCalledWith(15);
+
+		list.splice(0, 2);
+		expect(callback).toHaveBeenLastCalledWith(12);
+
+		list.length = 1;
+		expect(callback).toHaveBeenLastCalledWith(3);
+	});
+
+	test('reading an index should be invalidated when the array shrinks past it', () => {
+		const list = reactive(['a', 'b', 'c']);
+		const last = new Computed(() => list[2]);
+
+		expect(last.value).toBe('c');
+		list.pop();
+		expect(last.value).toBeUndefined();
+	});
+
+	test('nested arrays should be reactive', () => {
+		const todos = reactive({ items: [{ done: false }] });
+		const doneCount = new Computed(() => todos.items.filter(item => item.done).length);
+
+		expect(doneCount.value).toBe(0);
+		todos.items[0].done = true;
+		expect(doneCount.value).toBe(1);
+		todos.items.push({ done: true });
+		expect(doneCount.value).toBe(2);
+	});
+
+	test('an effect pushing to an array should not depend on its length', () => {
+		const source = reactive({ count: 0 });
+		const log = reactive<number[]>([]);
+		Observer.effect(() => {
+			log.push(source.count);
+		});
+
+		source.count = 1;
+		expect(toRaw(log)).toEqual([0, 1]);
+	});
+
+	// Shallow tests
+	test('shallowReactive() should only track its own properties', () => {
+		const obj = shallowReactive({ nested: { value: 1 } });
+		const compute = jest.fn(() => obj.nested.value);
+		const value = new Computed(compute);
+
+		expect(isReactive(obj.nested)).toBe(false);
+		expect(value.value).toBe(1);
+
+		obj.nested.value = 2;
+		expect(value.value).toBe(1);
+
+		obj.nested = { value: 3 };
+		expect(value.value).toBe(3);
+	});
+
+	test('deep and shallow proxies of the same object should notify each other', () => {
+		const raw = { a: 1 };
+		const deep = reactive(raw);
+		const shallow = shallowReactive(raw);
+		const a = new Computed(() => deep.a);
+
+		expect(a.value).toBe(1);
+		shallow.a = 2;
+		expect(a.value).toBe(2);
+	});
+
+	// Introspection tests
+	test('ReactiveObject.of() should expose the node for inspection', () => {
+		const user = reactive({ name: 'Alex', address: { city: 'Paris' } }, { name: 'user' });
+		const city = new Computed(() => user.address.city);
+		city.value;
+
+		const node = ReactiveObject.of(user.address) as ReactiveObject;
+		expect(node.name).toBe('user.address');
+		expect(getDependents(node)).toEqual([city]);
+		expect(ReactiveObject.of({})).toBeUndefined();
+	});
+});
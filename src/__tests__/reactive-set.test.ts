@@ -0,0 +1,236 @@
+import { ReactiveSet } from '../reactive-set';
+import { Computed } from '../computed';
+import { Scope } from '../scope';
+import { batch } from '../core';
+import { getDependencies, getDependents } from '../graph';
+
+describe('ReactiveSet', () => {
+	test('should initialize with the provided members', () => {
+		const set = new ReactiveSet([1, 2, 2, 3]);
+		expect(set.value).toEqual(new Set([1, 2, 3]));
+		expect(set.size).toBe(3);
+	});
+
+	test('add(), delete() and has() should work like a Set', () => {
+		const set = new ReactiveSet<string>();
+		expect(set.add('a')).toBe(true);
+		expect(set.add('a')).toBe(false);
+		expect(set.has('a')).toBe(true);
+
+		expect(set.delete('a')).toBe(true);
+		expect(set.delete('a')).toBe(false);
+		expect(set.has('a')).toBe(false);
+	});
+
+	test('toggle() should flip membership or follow force', () => {
+		const set = new ReactiveSet<string>();
+		expect(set.toggle('a')).toBe(true);
+		expect(set.toggle('a')).toBe(false);
+		expect(set.toggle('a', true)).toBe(true);
+		expect(set.toggle('a', true)).toBe(true);
+		expect(set.toggle('a', false)).toBe(false);
+		expect(set.size).toBe(0);
+	});
+
+	test('clear() should remove all members and notify once', () => {
+		const set = new ReactiveSet([1, 2]);
+		const callback = jest.fn();
+		set.onChange(callback);
+
+		set.clear();
+		expect(set.size).toBe(0);
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	test('set() should replace all members', () => {
+		const set = new ReactiveSet([1, 2]);
+		set.set(new Set([2, 3]));
+		expect(set.values()).toEqual([2, 3]);
+	});
+
+	test('members should not be cloned', () => {
+		const item = { id: 1 };
+		const set = new ReactiveSet([item]);
+		expect(set.has(item)).toBe(true);
+		expect(set.has({ id: 1 })).toBe(false);
+	});
+
+	// Membership tracking tests
+	test('a computed reading has() should only recompute when that member changes', () => {
+		const set = new ReactiveSet<number>();
+		const compute = jest.fn(() => set.has(1));
+		const hasOne = new Computed(compute);
+
+		expect(hasOne.value).toBe(false);
+		set.add(2);
+		set.delete(2);
+		expect(hasOne.value).toBe(false);
+		expect(compute).toHaveBeenCalledTimes(1);
+
+		set.add(1);
+		expect(hasOne.value).toBe(true);
+		expect(compute).toHaveBeenCalledTimes(2);
+	});
+
+	test('size and values() should track every membership change', () => {
+		const set = new ReactiveSet([1]);
+		const size = new Computed(() => set.size);
+		const sum = new Computed(() => set.values().reduce((total, item) => total + item, 0));
+
+		set.add(2);
+		expect(size.value).toBe(2);
+		expect(sum.value).toBe(3);
+		set.delete(1);
+		expect(size.value).toBe(1);
+		expect(sum.value).toBe(2);
+	});
+
+	// Event tests
+	test('onAdded and onRemoved should fire for each member', () => {
+		const set = new ReactiveSet<string>();
+		const added = jest.fn();
+		const removed = jest.fn();
+		set.onAdded(added);
+		const unsubscribe = set.onRemoved(removed);
+
+		set.add('a');
+		set.add('a');
+		set.delete('a');
+		expect(added).toHaveBeenCalledTimes(1);
+		expect(added).toHaveBeenCalledWith('a');
+		expect(removed).toHaveBeenCalledWith('a');
+
+		unsubscribe();
+		set.add('b');
+		set.delete('b');
+		expect(removed).toHaveBeenCalledTimes(1);
+	});
+
+	test('onChange should receive the new members, the previous members and the changes', () => {
+		const set = new ReactiveSet([1]);
+		const callback = jest.fn();
+		set.onChange(callback);
+
+		batch(() => {
+			set.add(2);
+			set.delete(1);
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(
+			new Set([2]),
+			new Set([1]),
+			{ source: set, changes: [{ kind: 'add', item: 2 }, { kind: 'delete', item: 1 }] }
+		);
+	});
+
+	// Set algebra tests
+	test('union() should contain members of either set and update incrementally', () => {
+		const a = new ReactiveSet([1, 2]);
+		const b = new ReactiveSet([2, 3]);
+		const union = a.union(b);
+		expect(union.value).toEqual(new Set([1, 2, 3]));
+
+		const added = jest.fn();
+		union.onAdded(added);
+		a.add(3);
+		expect(added).not.toHaveBeenCalled();
+
+		b.delete(2);
+		expect(union.value).toEqual(new Set([1, 2, 3]));
+		a.delete(2);
+		expect(union.value).toEqual(new Set([1, 3]));
+		b.add(4);
+		expect(union.value).toEqual(new Set([1, 3, 4]));
+	});
+
+	test('intersection() should contain members of both sets and update incrementally', () => {
+		const a = new ReactiveSet([1, 2]);
+		const b = new ReactiveSet([2, 3]);
+		const intersection = a.intersection(b);
+		expect(intersection.value).toEqual(new Set([2]));
+
+		a.add(3);
+		expect(intersection.value).toEqual(new Set([2, 3]));
+		b.delete(2);
+		expect(intersection.value).toEqual(new Set([3]));
+		a.clear();
+		expect(intersection.value).toEqual(new Set());
+	});
+
+	test('difference() should contain members of only the first set and update incrementally', () => {
+		const a = new ReactiveSet([1, 2]);
+		const b = new ReactiveSet([2]);
+		const difference = a.difference(b);
+		expect(difference.value).toEqual(new Set([1]));
+
+		b.delete(2);
+		expect(difference.value).toEqual(new Set([1, 2]));
+		b.add(1);
+		expect(difference.value).toEqual(new Set([2]));
+		a.add(3);
+		expect(difference.value).toEqual(new Set([2, 3]));
+	});
+
+	test('derived sets should support per-member tracking', () => {
+		const a = new ReactiveSet([1]);
+		const b = new ReactiveSet<number>();
+		const union = a.union(b);
+		const compute = jest.fn(() => union.has(1));
+		const hasOne = new Computed(compute);
+
+		expect(hasOne.value).toBe(true);
+		b.add(2);
+		expect(hasOne.value).toBe(true);
+		expect(compute).toHaveBeenCalledTimes(1);
+	});
+
+	test('derived sets should reject direct changes', () => {
+		const a = new ReactiveSet([1]);
+		const b = new ReactiveSet([2]);
+		const derived = [a.union(b), a.intersection(b), a.difference(b)];
+		const message = 'Cannot change a derived set directly. Its members follow the sets it was derived from.';
+
+		derived.forEach(set => {
+			const before = set.value;
+			expect(set.isDerived).toBe(true);
+			expect(() => set.add(3)).toThrow(message);
+			expect(() => set.delete(1)).toThrow(message);
+			expect(() => set.toggle(1)).toThrow(message);
+			expect(() => set.set(new Set([9]))).toThrow(message);
+			expect(() => set.clear()).toThrow(message);
+			expect(set.value).toEqual(before);
+		});
+
+		expect(a.isDerived).toBe(false);
+		a.add(3);
+		expect(derived[0].value).toEqual(new Set([1, 2, 3]));
+	});
+
+	test('disposing a derived set should detach it from its sources', () => {
+		const a = new ReactiveSet([1]);
+		const b = new ReactiveSet([2]);
+		const union = a.union(b, { name: 'union' });
+		expect(getDependencies(union)).toEqual([a, b]);
+		expect(getDependents(a)).toContain(union);
+
+		union.dispose();
+		a.add(3);
+		expect(union.value).toEqual(new Set([1, 2]));
+		expect(getDependents(a)).toEqual([]);
+		expect(a.getListenerCount()).toBe(0);
+	});
+
+	// Lifecycle tests
+	test('dispose() should drop listeners and leave the scope', () => {
+		const scope = new Scope();
+		const set = new ReactiveSet([1], { scope });
+		const callback = jest.fn();
+		set.onChange(callback);
+
+		scope.dispose();
+		set.add(2);
+		expect(callback).not.toHaveBeenCalled();
+		expect(set.getListenerCount()).toBe(0);
+	});
+});
@@ -0,0 +1,206 @@
+import { State, Computed, Observer, ReactiveList } from '../index';
+import { Scheduler } from '../scheduler';
+import { CircularDependencyError } from '../core';
+
+describe('Scheduler', () => {
+	afterEach(() => {
+		Scheduler.default = Scheduler.sync;
+	});
+
+	test('sync should deliver immediately', () => {
+		const state = new State(1);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		state.value = 2;
+
+		expect(mockCallback).toHaveBeenCalledWith(2, 1, expect.anything());
+	});
+
+	describe('manual', () => {
+		test('should defer listeners until flushed', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+
+			const state = new State(1);
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = 2;
+			expect(mockCallback).not.toHaveBeenCalled();
+			expect(state.value).toBe(2);
+
+			scheduler.flush();
+			expect(mockCallback).toHaveBeenCalledWith(2, 1, expect.anything());
+		});
+
+		test('should coalesce changes into one delivery of the latest value', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+
+			const state = new State(1);
+			const doubled = new Computed(() => state.use() * 2);
+			const list = new ReactiveList<number>();
+			const stateCallback = jest.fn();
+			const computedCallback = jest.fn();
+			const listCallback = jest.fn();
+
+			state.onChange(stateCallback);
+			doubled.onChange(computedCallback);
+			list.onChange(listCallback);
+
+			state.value = 2;
+			state.value = 3;
+			list.add(1);
+			list.add(2);
+
+			scheduler.flush();
+
+			expect(stateCallback).toHaveBeenCalledTimes(1);
+			expect(stateCallback).toHaveBeenCalledWith(3, 1, expect.anything());
+			expect(computedCallback).toHaveBeenCalledTimes(1);
+			expect(computedCallback).toHaveBeenCalledWith(6, 2, expect.anything());
+			expect(listCallback).toHaveBeenCalledTimes(1);
+			expect(listCallback).toHaveBeenCalledWith([1, 2], [], expect.anything());
+		});
+
+		test('should deliver changes made by listeners in the same flush', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+
+			const source = new State(1);
+			const target = new State(0);
+			const mockCallback = jest.fn();
+			source.onChange(value => target.set(value * 10));
+			target.onChange(mockCallback);
+
+			source.value = 2;
+			scheduler.flush();
+
+			expect(mockCallback).toHaveBeenCalledWith(20, 0, expect.anything());
+		});
+
+		test('should detect listeners that never settle', () => {
+			const scheduler = Scheduler.manual();
+			Scheduler.default = scheduler;
+
+			const counter = new State(0);
+			counter.onChange(value => counter.set(value + 1));
+
+			counter.value = 1;
+
+			expect(() => scheduler.flush()).toThrow(CircularDependencyError);
+		});
+	});
+
+	describe('per observer', () => {
+		test('should defer a watcher without affecting other listeners', () => {
+			const scheduler = Scheduler.manual();
+			const state = new State(1);
+			const watched = jest.fn();
+			const direct = jest.fn();
+
+			Observer.watch(state, watched, { scheduler });
+			state.onChange(direct);
+			watched.mockClear();
+
+			state.value = 2;
+			state.value = 3;
+
+			expect(direct).toHaveBeenCalledTimes(2);
+			expect(watched).not.toHaveBeenCalled();
+
+			scheduler.flush();
+			expect(watched).toHaveBeenCalledTimes(1);
+			expect(watched).toHaveBeenCalledWith(3, 1, expect.anything());
+		});
+
+		test('should defer effects', () => {
+			const scheduler = Scheduler.manual();
+			const state = new State(1);
+			const seen: number[] = [];
+
+			Observer.effect(() => {
+				seen.push(state.use());
+			}, { scheduler });
+
+			state.value = 2;
+			state.value = 3;
+			expect(seen).toEqual([1]);
+
+			scheduler.flush();
+			expect(seen).toEqual([1, 3]);
+		});
+
+		test('should not deliver to a disposed observer', () => {
+			const scheduler = Scheduler.manual();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			const observer = Observer.watch(state, mockCallback, { scheduler });
+			mockCallback.mockClear();
+
+			state.value = 2;
+			observer.dispose();
+			scheduler.flush();
+
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('automatic', () => {
+		test('microtask should deliver after the current task', async () => {
+			Scheduler.default = Scheduler.microtask();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = 2;
+			state.value = 3;
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			await Promise.resolve();
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(3, 1, expect.anything());
+		});
+
+		test('timer should deliver after the delay', () => {
+			jest.useFakeTimers();
+			try {
+				const scheduler = Scheduler.timer(50);
+				const state = new State(1);
+				const mockCallback = jest.fn();
+				Observer.watch(state, mockCallback, { scheduler });
+				mockCallback.mockClear();
+
+				state.value = 2;
+				jest.advanceTimersByTime(49);
+				expect(mockCallback).not.toHaveBeenCalled();
+
+				jest.advanceTimersByTime(1);
+				expect(mockCallback).toHaveBeenCalledWith(2, 1, expect.anything());
+			} finally {
+				jest.useRealTimers();
+			}
+		});
+
+		test('frame should fall back to a timer without requestAnimationFrame', () => {
+			jest.useFakeTimers();
+			try {
+				const scheduler = Scheduler.frame();
+				const state = new State(1);
+				const mockCallback = jest.fn();
+				Observer.watch(state, mockCallback, { scheduler });
+				mockCallback.mockClear();
+
+				state.value = 2;
+				expect(mockCallback).not.toHaveBeenCalled();
+
+				jest.advanceTimersByTime(16);
+				expect(mockCallback).toHaveBeenCalledWith(2, 1, expect.anything());
+			} finally {
+				jest.useRealTimers();
+			}
+		});
+	});
+});
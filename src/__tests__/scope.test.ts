@@ -0,0 +1,158 @@
+import { State, Computed, Observer, ReactiveList, Hydrate, Scope } from '../index';
+
+describe('Scope', () => {
+	test('should dispose owned observers', () => {
+		const scope = new Scope();
+		const state = new State(1);
+		const mockCallback = jest.fn();
+
+		Observer.watch(state, mockCallback, { scope });
+		mockCallback.mockClear();
+
+		scope.dispose();
+		state.value = 2;
+
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	test('should unsubscribe owned computeds from their dependencies', () => {
+		const scope = new Scope();
+		const state = new State(1);
+
+		let computeCount = 0;
+		const doubled = new Computed(() => {
+			computeCount++;
+			return state.use() * 2;
+		}, { scope });
+		doubled.forceEager = true;
+		computeCount = 0;
+
+		scope.dispose();
+		state.value = 2;
+
+		expect(computeCount).toBe(0);
+	});
+
+	test('should drop listeners of owned states and lists', () => {
+		const scope = new Scope();
+		const state = new State(1, { scope });
+		const list = new ReactiveList<number>([], { scope });
+		const stateCallback = jest.fn();
+		const listCallback = jest.fn();
+		const addCallback = jest.fn();
+
+		state.onChange(stateCallback);
+		list.onChange(listCallback);
+		list.onItemAdded(addCallback);
+
+		scope.dispose();
+		state.value = 2;
+		list.add(1);
+
+		expect(stateCallback).not.toHaveBeenCalled();
+		expect(listCallback).not.toHaveBeenCalled();
+		expect(addCallback).not.toHaveBeenCalled();
+	});
+
+	test('should remove owned hydrate bindings', () => {
+		const scope = new Scope();
+		const obj = {} as any;
+		const name = new State('John');
+
+		Hydrate(obj, { name }, { scope });
+
+		scope.dispose();
+		name.value = 'Jane';
+
+		expect(obj.name).toBe('John');
+	});
+
+	test('should dispose owned effects and run their cleanup', () => {
+		const scope = new Scope();
+		const mockCleanup = jest.fn();
+
+		Observer.effect(() => mockCleanup, { scope });
+
+		scope.dispose();
+
+		expect(mockCleanup).toHaveBeenCalledTimes(1);
+	});
+
+	test('should run cleanup callbacks in reverse order', () => {
+		const scope = new Scope();
+		const order: number[] = [];
+
+		scope.onCleanup(() => order.push(1));
+		scope.onCleanup(() => order.push(2));
+
+		scope.dispose();
+
+		expect(order).toEqual([2, 1]);
+	});
+
+	test('should dispose child scopes before the parent', () => {
+		const parent = new Scope();
+		const child = parent.createChild();
+		const grandchild = new Scope(child);
+		const order: string[] = [];
+
+		parent.onCleanup(() => order.push('parent'));
+		child.onCleanup(() => order.push('child'));
+		grandchild.onCleanup(() => order.push('grandchild'));
+
+		parent.dispose();
+
+		expect(order).toEqual(['grandchild', 'child', 'parent']);
+		expect(child.isDisposed).toBe(true);
+		expect(grandchild.isDisposed).toBe(true);
+	});
+
+	test('should not affect the parent when a child is disposed', () => {
+		const parent = new Scope();
+		const child = parent.createChild();
+		const parentCleanup = jest.fn();
+		const childCleanup = jest.fn();
+
+		parent.onCleanup(parentCleanup);
+		child.onCleanup(childCleanup);
+
+		child.dispose();
+		expect(childCleanup).toHaveBeenCalledTimes(1);
+		expect(parentCleanup).not.toHaveBeenCalled();
+
+		parent.dispose();
+		expect(childCleanup).toHaveBeenCalledTimes(1);
+		expect(parentCleanup).toHaveBeenCalledTimes(1);
+	});
+
+	test('should only dispose once', () => {
+		const scope = new Scope();
+		const mockCleanup = jest.fn();
+		scope.onCleanup(mockCleanup);
+
+		scope.dispose();
+		scope.dispose();
+
+		expect(mockCleanup).toHaveBeenCalledTimes(1);
+	});
+
+	test('should throw when adding to a disposed scope', () => {
+		const scope = new Scope();
+		scope.dispose();
+
+		expect(() => new State(1, { scope })).toThrow('Cannot add to a scope that has already been disposed.');
+		expect(() => scope.onCleanup(() => {})).toThrow();
+		expect(() => scope.createChild()).toThrow();
+	});
+
+	test('should release nodes that are disposed individually', () => {
+		const scope = new Scope();
+		const state = new State(1, { scope });
+		const disposeSpy = jest.spyOn(state, 'dispose');
+
+		state.dispose();
+		scope.dispose();
+
+		expect(disposeSpy).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,313 @@
+import { Spring } from '../spring';
+import { Clock, IManualClock } from '../clock';
+import { State } from '../state';
+import { Computed } from '../computed';
+import { Observer } from '../observer';
+import { Hydrate } from '../hydrate';
+import { Scope } from '../scope';
+import { getDependencies, getDependents } from '../graph';
+import { Tracer } from '../tracer';
+
+/**
+ * Ticks the clock at 60 frames per second for the given number of seconds.
+ */
+function run(clock: IManualClock, seconds: number): void {
+	for (let i = 0; i < Math.round(seconds * 60); i++) {
+		clock.tick(1 / 60);
+	}
+}
+
+describe('Spring', () => {
+	let clock: IManualClock;
+
+	beforeEach(() => {
+		clock = Clock.manual();
+	});
+
+	test('should start at rest at the goal', () => {
+		const goal = new State(5);
+		const spring = new Spring(goal, { clock });
+
+		expect(spring.value).toBe(5);
+		expect(spring.velocity.value).toBe(0);
+		expect(spring.isAnimating).toBe(false);
+	});
+
+	test('should move towards a new goal and come to rest exactly on it', () => {
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock });
+
+		goal.set(100);
+		expect(spring.value).toBe(0);
+		expect(spring.isAnimating).toBe(true);
+
+		clock.tick(1 / 60);
+		expect(spring.value).toBeGreaterThan(0);
+		expect(spring.value).toBeLessThan(100);
+		expect(spring.velocity.value).toBeGreaterThan(0);
+
+		run(clock, 5);
+		expect(spring.value).toBe(100);
+		expect(spring.velocity.value).toBe(0);
+		expect(spring.isAnimating).toBe(false);
+	});
+
+	test('should not overshoot when critically or over damped', () => {
+		for (const damping of [1, 2]) {
+			const goal = new State(0);
+			const spring = new Spring(goal, { clock, damping });
+			let highest = 0;
+			spring.onChange(value => highest = Math.max(highest, value));
+
+			goal.set(1);
+			run(clock, 5);
+
+			expect(highest).toBe(1);
+			expect(spring.value).toBe(1);
+		}
+	});
+
+	test('should overshoot and bounce when underdamped', () => {
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock, damping: 0.2 });
+		let highest = 0;
+		spring.onChange(value => highest = Math.max(highest, value));
+
+		goal.set(1);
+		run(clock, 10);
+
+		expect(highest).toBeGreaterThan(1.3);
+		expect(spring.value).toBe(1);
+	});
+
+	test('should give the same result for any step size', () => {
+		const coarseGoal = new State(0);
+		const fineGoal = new State(0);
+		const coarse = new Spring(coarseGoal, { clock: Clock.manual(), damping: 0.5 });
+		const fineClock = Clock.manual();
+		const fine = new Spring(fineGoal, { clock: fineClock, damping: 0.5 });
+
+		coarseGoal.set(10);
+		fineGoal.set(10);
+		coarse.step(0.1);
+		for (let i = 0; i < 10; i++) {
+			fineClock.tick(0.01);
+		}
+
+		expect(coarse.value).toBeCloseTo(fine.value, 10);
+		expect(coarse.velocity.value).toBeCloseTo(fine.velocity.value, 10);
+	});
+
+	test('should move faster with a higher speed', () => {
+		const goal = new State(0);
+		const slow = new Spring(goal, { clock, speed: 5 });
+		const fast = new Spring(goal, { clock, speed: 20 });
+
+		goal.set(1);
+		clock.tick(0.1);
+
+		expect(fast.value).toBeGreaterThan(slow.value);
+	});
+
+	test('should read reactive speed and damping on every step', () => {
+		const goal = new State(0);
+		const speed = new State(10);
+		const spring = new Spring(goal, { clock, speed });
+
+		goal.set(1);
+		speed.set(0);
+		clock.tick(1);
+		expect(spring.value).toBe(0);
+
+		speed.set(10);
+		clock.tick(1 / 60);
+		expect(spring.value).toBeGreaterThan(0);
+	});
+
+	test('should animate arrays of numbers', () => {
+		const goal = new State([0, 0, 0]);
+		const spring = new Spring(goal, { clock });
+
+		goal.set([10, -10, 5]);
+		clock.tick(1 / 60);
+
+		const [x, y, z] = spring.value;
+		expect(x).toBeGreaterThan(0);
+		expect(y).toBeLessThan(0);
+		expect(z).toBeGreaterThan(0);
+
+		run(clock, 5);
+		expect(spring.value).toEqual([10, -10, 5]);
+	});
+
+	test('should animate the numeric fields of vector-like objects, keeping their class and other fields', () => {
+		class Vector2 {
+			constructor(public x: number, public y: number, public label: string = '') {}
+
+			length(): number {
+				return Math.hypot(this.x, this.y);
+			}
+		}
+		const goal = new State(new Vector2(0, 0, 'origin'));
+		const spring = new Spring(goal, { clock });
+
+		goal.set(new Vector2(3, 4, 'target'));
+		clock.tick(1 / 60);
+
+		expect(spring.value).toBeInstanceOf(Vector2);
+		expect(spring.value.label).toBe('target');
+		expect(spring.value.length()).toBeGreaterThan(0);
+		expect(spring.velocity.value).toBeInstanceOf(Vector2);
+
+		run(clock, 5);
+		expect(spring.value.length()).toBe(5);
+	});
+
+	test('should jump to a goal of a different shape', () => {
+		const goal = new State<number[]>([0, 0]);
+		const spring = new Spring(goal, { clock });
+
+		goal.set([1, 2, 3]);
+
+		expect(spring.value).toEqual([1, 2, 3]);
+		expect(spring.isAnimating).toBe(false);
+	});
+
+	test('should reject values it cannot animate', () => {
+		expect(() => new Spring(new State<any>('text'), { clock })).toThrow(
+			'Springs can only animate numbers, arrays of numbers and objects with numeric fields.'
+		);
+		expect(() => new Spring(new State<any>({ name: 'Ada' }), { clock })).toThrow(
+			'Springs can only animate numbers, arrays of numbers and objects with numeric fields.'
+		);
+	});
+
+	test('should move instantly with setPosition and spring back to the goal', () => {
+		const goal = new State(10);
+		const spring = new Spring(goal, { clock });
+
+		spring.setPosition(0);
+		expect(spring.value).toBe(0);
+		expect(spring.isAnimating).toBe(true);
+
+		run(clock, 5);
+		expect(spring.value).toBe(10);
+	});
+
+	test('should set and add velocity', () => {
+		const goal = new State({ x: 0, y: 0 });
+		const spring = new Spring(goal, { clock });
+
+		spring.setVelocity({ x: 10, y: 0 });
+		spring.addVelocity({ x: 5, y: -5 });
+		expect(spring.velocity.value).toEqual({ x: 15, y: -5 });
+
+		clock.tick(1 / 60);
+		expect(spring.value.x).toBeGreaterThan(0);
+		expect(spring.value.y).toBeLessThan(0);
+
+		run(clock, 5);
+		expect(spring.value).toEqual({ x: 0, y: 0 });
+	});
+
+	test('should reject positions and velocities of a different shape', () => {
+		const spring = new Spring(new State([0, 0]), { clock });
+
+		expect(() => spring.setPosition([1, 2, 3])).toThrow('The value must have the same shape as the goal of the spring.');
+		expect(() => spring.addVelocity([1])).toThrow('The value must have the same shape as the goal of the spring.');
+	});
+
+	test('should throw when set directly', () => {
+		const spring = new Spring(new State(0), { clock });
+
+		expect(() => spring.set(1)).toThrow('Cannot set the value of a spring');
+	});
+
+	test('should only tick while moving', () => {
+		const subscribe = jest.spyOn(clock, 'subscribe');
+		const goal = new State(0);
+		new Spring(goal, { clock });
+
+		expect(subscribe).not.toHaveBeenCalled();
+
+		goal.set(1);
+		goal.set(2);
+		expect(subscribe).toHaveBeenCalledTimes(1);
+	});
+
+	test('should be consumable by Observer.watch, Hydrate and computeds', () => {
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock });
+		const values: number[] = [];
+		const sprite = { x: 0 };
+		const rounded = new Computed(() => Math.round(spring.use()));
+
+		Observer.watch(spring, value => values.push(value));
+		Hydrate(sprite, { x: spring });
+
+		goal.set(100);
+		run(clock, 5);
+
+		expect(values.length).toBeGreaterThan(2);
+		expect(values[values.length - 1]).toBe(100);
+		expect(sprite.x).toBe(100);
+		expect(rounded.value).toBe(100);
+	});
+
+	test('should report its goal and reactive parameters in the graph', () => {
+		const goal = new State(0);
+		const damping = new State(0.5);
+		const spring = new Spring(goal, { clock, damping });
+
+		expect(getDependencies(spring)).toEqual([goal, damping]);
+		expect(getDependents(goal)).toContain(spring);
+
+		spring.dispose();
+		expect(getDependents(goal)).not.toContain(spring);
+	});
+
+	test('should report each step to instrumentation as its own change', () => {
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock, name: 'position' });
+		const rounded = new Computed(() => Math.round(spring.use()), { name: 'rounded' });
+		rounded.value;
+		goal.set(100);
+
+		const traces = Tracer.trace(() => clock.tick(1 / 60));
+
+		expect(traces.length).toBe(1);
+		expect(traces[0].origins.map(origin => `${origin.name}: ${origin.mutation}`)).toEqual(['position: step']);
+		expect(traces[0].origins[0].children.map(child => child.name)).toEqual(['rounded']);
+	});
+
+	test('should stop following the goal when disposed', () => {
+		const scope = new Scope();
+		const goal = new State(0);
+		const spring = new Spring(goal, { clock, scope });
+
+		goal.set(1);
+		scope.dispose();
+		run(clock, 1);
+		goal.set(2);
+
+		expect(spring.isDisposed).toBe(true);
+		expect(spring.isAnimating).toBe(false);
+		expect(spring.value).toBe(0);
+	});
+
+	test('should use the default clock when none is given', () => {
+		const previous = Clock.default;
+		Clock.default = clock;
+		try {
+			const goal = new State(0);
+			const spring = new Spring(goal);
+
+			goal.set(1);
+			run(clock, 5);
+
+			expect(spring.value).toBe(1);
+		} finally {
+			Clock.default = previous;
+		}
+	});
+});
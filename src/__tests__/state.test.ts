@@ -1,4 +1,6 @@
 import { State } from '../state';
+import { batch } from '../core';
+import { Observer } from '../observer';
 
 describe('State', () => {
 	test('should initialize with the provided value', () => {
@@ -13,7 +15,7 @@ describe('State', () => {
 		state.onChange(mockCallback);
 		state.value = 1;
 
-		expect(mockCallback).toHaveBeenCalledWith(1);
+		expect(mockCallback).toHaveBeenCalledWith(1, 0, expect.anything());
 	});
 
 	test('should not notify when value is the same', () => {
@@ -86,4 +88,206 @@ describe('State', () => {
 		state.value = 2;
 		expect(mockCallback).toHaveBeenCalledTimes(1); // Still only called once
 	});
+
+	describe('equals option', () => {
+		test('should not notify for a structurally equal value with shallow equality', () => {
+			const state = new State({ x: 1, y: 2 }, { equals: 'shallow' });
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = { x: 1, y: 2 };
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			state.value = { x: 1, y: 3 };
+			expect(mockCallback).toHaveBeenCalledWith({ x: 1, y: 3 }, { x: 1, y: 2 }, expect.anything());
+		});
+
+		test('should not notify for a deeply equal value with deep equality', () => {
+			const state = new State({ tags: ['a', 'b'], at: new Date(0) }, { equals: 'deep' });
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = { tags: ['a', 'b'], at: new Date(0) };
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		test('should use a custom comparator', () => {
+			const state = new State(1.0, { equals: (a, b) => Math.round(a) === Math.round(b) });
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = 1.2;
+			expect(mockCallback).not.toHaveBeenCalled();
+			expect(state.value).toBe(1.0);
+
+			state.value = 2.0;
+			expect(mockCallback).toHaveBeenCalledWith(2.0, 1, expect.anything());
+		});
+	});
+
+	describe('change info', () => {
+		test('should pass the previous value and the source to listeners', () => {
+			const state = new State(1);
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			state.value = 2;
+
+			expect(mockCallback).toHaveBeenCalledWith(2, 1, { source: state });
+		});
+
+		test('should report the value from before the batch when changes are coalesced', () => {
+			const state = new State(1);
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			batch(() => {
+				state.value = 2;
+				state.value = 3;
+			});
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(3, 1, { source: state });
+		});
+
+		test('should still support single-argument listeners', () => {
+			const state = new State('a');
+			const values: string[] = [];
+			state.onChange(value => values.push(value));
+
+			state.value = 'b';
+
+			expect(values).toEqual(['b']);
+		});
+	});
+
+	test('map() and filter() should pass options to the computed', () => {
+		const state = new State(2);
+		const doubled = state.map(value => value * 2, { name: 'doubled', autoDispose: true });
+		const isEven = state.filter(value => value % 2 === 0, { name: 'isEven' });
+
+		expect(doubled.name).toBe('doubled');
+		expect(isEven.name).toBe('isEven');
+
+		const unsubscribe = doubled.onChange(() => {});
+		unsubscribe();
+
+		expect(doubled.isDisposed).toBe(true);
+		expect(state.getDependents()).not.toContain(doubled);
+	});
+
+	describe('lenses', () => {
+		test('should read and write a part of the value', () => {
+			const user = new State({ name: 'Ada', age: 36 });
+			const age = user.lens(u => u.age, (u, age) => ({ ...u, age }));
+
+			expect(age.value).toBe(36);
+
+			age.set(37);
+
+			expect(user.value).toEqual({ name: 'Ada', age: 37 });
+			expect(age.value).toBe(37);
+		});
+
+		test('should follow changes to the state', () => {
+			const user = new State({ name: 'Ada', age: 36 });
+			const name = user.lens(u => u.name, (u, name) => ({ ...u, name }));
+
+			user.value = { name: 'Grace', age: 85 };
+
+			expect(name.value).toBe('Grace');
+		});
+
+		test('should split a combined value back into its fields', () => {
+			const person = new State({ firstName: 'Ada', lastName: 'Lovelace' });
+			const fullName = person.lens(
+				p => `${p.firstName} ${p.lastName}`,
+				(p, fullName) => {
+					const [firstName, ...rest] = fullName.split(' ');
+					return { ...p, firstName, lastName: rest.join(' ') };
+				}
+			);
+
+			fullName.set('Grace Brewster Hopper');
+
+			expect(person.value).toEqual({ firstName: 'Grace', lastName: 'Brewster Hopper' });
+			expect(fullName.value).toBe('Grace Brewster Hopper');
+		});
+
+		test('should select a nested field by path', () => {
+			const user = new State({ name: 'Ada', address: { city: 'London', zip: 'N1' } });
+			const city = user.select('address.city');
+
+			expect(city.value).toBe('London');
+
+			city.set('Paris');
+
+			expect(user.value).toEqual({ name: 'Ada', address: { city: 'Paris', zip: 'N1' } });
+		});
+
+		test('should copy only the objects along the path when writing back', () => {
+			const original = { settings: { theme: { color: 'light' } }, profile: { name: 'Ada' } };
+			const state = new State(original);
+			const color = state.select('settings.theme.color');
+
+			color.set('dark');
+
+			const updated = state.value;
+			expect(updated).not.toBe(original);
+			expect(updated.settings).not.toBe(original.settings);
+			expect(updated.settings.theme).not.toBe(original.settings.theme);
+			expect(updated.profile).toBe(original.profile);
+			expect(original.settings.theme.color).toBe('light');
+		});
+
+		test('should select array items by index', () => {
+			const original = { todos: [{ title: 'a', done: false }, { title: 'b', done: false }] };
+			const state = new State(original);
+			const done = state.select('todos.1.done');
+
+			done.set(true);
+
+			expect(Array.isArray(state.value.todos)).toBe(true);
+			expect(state.value.todos[1]).toEqual({ title: 'b', done: true });
+			expect(state.value.todos[0]).toBe(original.todos[0]);
+			expect(original.todos[1].done).toBe(false);
+		});
+
+		test('should create missing objects along the path', () => {
+			const state = new State<{ address?: { city?: string } }>({});
+			const city = state.select('address.city');
+
+			expect(city.value).toBeUndefined();
+
+			city.set('Paris');
+
+			expect(state.value).toEqual({ address: { city: 'Paris' } });
+		});
+
+		test('should only notify when the selected field changes', () => {
+			const state = new State({ a: 1, b: 1 });
+			const a = state.select('a');
+			const mockCallback = jest.fn();
+			a.onChange(mockCallback);
+
+			state.value = { ...state.value, b: 2 };
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			state.value = { ...state.value, a: 2 };
+			expect(mockCallback).toHaveBeenCalledWith(2, 1, { source: a });
+		});
+
+		test('should work where any reactive value is expected', () => {
+			const form = new State({ email: '' });
+			const email = form.select('email');
+			const values: string[] = [];
+			const observer = Observer.watch(email, value => values.push(value));
+
+			email.set('ada@example.com');
+
+			expect(values).toEqual(['', 'ada@example.com']);
+			expect(form.value.email).toBe('ada@example.com');
+			observer.dispose();
+		});
+	});
 });
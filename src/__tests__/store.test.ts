@@ -0,0 +1,206 @@
+import { Store, StoreSnapshot } from '../store';
+import { State } from '../state';
+import { Computed } from '../computed';
+import { AsyncComputed } from '../async-computed';
+import { ReactiveList } from '../reactive-list';
+import { ReactiveMap } from '../reactive-map';
+import { ReactiveSet } from '../reactive-set';
+import { Observer } from '../observer';
+import { Scope } from '../scope';
+import { Spring } from '../spring';
+import { Clock } from '../clock';
+
+describe('Store', () => {
+	test('snapshot() should save the value of every writable node', () => {
+		const store = new Store();
+		store.register('count', new State(1));
+		store.register('todos', new ReactiveList(['a', 'b']));
+		store.register('scores', new ReactiveMap([['alice', 3]]));
+		store.register('tags', new ReactiveSet(['x']));
+
+		expect(store.snapshot()).toEqual({
+			version: 1,
+			values: {
+				count: 1,
+				todos: ['a', 'b'],
+				scores: [['alice', 3]],
+				tags: ['x']
+			}
+		});
+	});
+
+	test('snapshot() should skip computed values', () => {
+		const count = new State(2);
+		const store = new Store();
+		store.register('count', count);
+		store.register('doubled', new Computed(() => count.use() * 2));
+		store.register('loaded', new AsyncComputed(async () => count.use()));
+
+		expect(store.snapshot().values).toEqual({ count: 2 });
+	});
+
+	test('snapshot() and restore() should skip derived sets', () => {
+		const a = new ReactiveSet([1]);
+		const b = new ReactiveSet([2]);
+		const store = new Store();
+		store.register('a', a);
+		store.register('both', a.union(b));
+
+		const snapshot = store.snapshot();
+		expect(Object.keys(snapshot.values)).toEqual(['a']);
+
+		expect(() => store.restore({ ...snapshot, values: { a: snapshot.values.a, both: snapshot.values.a } })).not.toThrow();
+	});
+
+	test('snapshot() and restore() should skip springs', () => {
+		const goal = new State(1);
+		const store = new Store();
+		store.register('goal', goal);
+		store.register('position', new Spring(goal, { clock: Clock.manual() }));
+
+		expect(store.snapshot().values).toEqual({ goal: 1 });
+
+		store.restore({ version: 1, values: { goal: 3, position: 2 } });
+		expect(goal.value).toBe(3);
+	});
+
+	test('snapshot() and restore() should skip any node that reports itself as derived', () => {
+		const count = new State(1);
+		const store = new Store();
+		store.register('derived', Object.assign(new State(0), { isDerived: true }));
+		store.register('count', count);
+
+		expect(store.snapshot().values).toEqual({ count: 1 });
+	});
+
+	test('snapshots should survive a JSON round trip', () => {
+		const scores = new ReactiveMap([['alice', 3]]);
+		const tags = new ReactiveSet(['x']);
+		const store = new Store();
+		store.register('scores', scores);
+		store.register('tags', tags);
+
+		const snapshot = JSON.parse(JSON.stringify(store.snapshot()));
+		scores.set('bob', 1);
+		tags.clear();
+		store.restore(snapshot);
+
+		expect(scores.value).toEqual(new Map([['alice', 3]]));
+		expect(tags.value).toEqual(new Set(['x']));
+	});
+
+	test('restore() should apply every value in a single batch', () => {
+		const first = new State('Ada');
+		const last = new State('Lovelace');
+		const full = new Computed(() => `${first.use()} ${last.use()}`);
+		const store = new Store();
+		store.register('first', first);
+		store.register('last', last);
+
+		const callback = jest.fn();
+		Observer.watch(full, callback);
+		callback.mockClear();
+
+		store.restore({ version: 1, values: { first: 'Grace', last: 'Hopper' } });
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith('Grace Hopper', 'Ada Lovelace', expect.anything());
+	});
+
+	test('restore() should ignore unknown keys and keep values that were not saved', () => {
+		const a = new State(1);
+		const b = new State(2);
+		const store = new Store();
+		store.register('a', a);
+		store.register('b', b);
+
+		store.restore({ version: 1, values: { a: 10, removed: 5 } });
+		expect(a.value).toBe(10);
+		expect(b.value).toBe(2);
+	});
+
+	test('register() should refuse a key that is already taken', () => {
+		const store = new Store();
+		const count = new State(0);
+		store.register('count', count);
+
+		expect(() => store.register('count', count)).not.toThrow();
+		expect(() => store.register('count', new State(1))).toThrow('already registered');
+	});
+
+	test('unregistering a node should leave it out of snapshots', () => {
+		const store = new Store();
+		const unregister = store.register('count', new State(0));
+		expect(store.keys()).toEqual(['count']);
+
+		unregister();
+		expect(store.keys()).toEqual([]);
+		expect(store.snapshot().values).toEqual({});
+	});
+
+	// Migration tests
+	test('restore() should migrate older snapshots step by step', () => {
+		const todos = new ReactiveList<{ text: string, done: boolean }>();
+		const store = new Store({
+			version: 3,
+			migrations: {
+				1: values => ({ todos: values.items }),
+				2: values => ({ todos: (values.todos as string[]).map(text => ({ text, done: false })) })
+			}
+		});
+		store.register('todos', todos);
+
+		store.restore({ version: 1, values: { items: ['write docs'] } });
+		expect(todos.value).toEqual([{ text: 'write docs', done: false }]);
+	});
+
+	test('restore() should refuse snapshots it cannot migrate', () => {
+		const store = new Store({ version: 2 });
+		store.register('count', new State(0));
+
+		expect(() => store.restore({ version: 3, values: {} })).toThrow('version 3');
+		expect(() => store.restore({ version: 1, values: {} })).toThrow('No migration');
+	});
+
+	test('a failed restore should leave every value unchanged', () => {
+		const count = new State(0);
+		const store = new Store({
+			version: 2,
+			migrations: {
+				1: () => {
+					throw new Error('bad snapshot');
+				}
+			}
+		});
+		store.register('count', count);
+
+		const snapshot: StoreSnapshot = { version: 1, values: { count: 5 } };
+		expect(() => store.restore(snapshot)).toThrow('bad snapshot');
+		expect(count.value).toBe(0);
+	});
+
+	test('a restore that a node refuses should set back the nodes already restored', () => {
+		const first = new State(0);
+		const second = new State(0);
+		second.intercept(() => {
+			throw new Error("Locked.");
+		});
+		const mockCallback = jest.fn();
+		first.onChange(mockCallback);
+		const store = new Store();
+		store.register('first', first);
+		store.register('second', second);
+
+		expect(() => store.restore({ version: 1, values: { first: 5, second: 5 } })).toThrow('Locked.');
+		expect(first.value).toBe(0);
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	test('dispose() should unregister every node and leave the scope', () => {
+		const scope = new Scope();
+		const store = new Store({ scope });
+		store.register('count', new State(0));
+
+		scope.dispose();
+		expect(store.keys()).toEqual([]);
+	});
+});
@@ -0,0 +1,201 @@
+import { State } from '../state';
+import { Computed } from '../computed';
+import { AsyncComputed } from '../async-computed';
+import { ReactiveList } from '../reactive-list';
+import { Observer } from '../observer';
+import { Tracer, TraceEntry } from '../tracer';
+import { batch, Instrumentation } from '../core';
+
+/**
+ * Reduces an entry to its name, outcome and children, for comparing trees without timings.
+ */
+function outline(entry: TraceEntry): unknown {
+	return {
+		name: entry.name,
+		outcome: entry.outcome,
+		...(entry.mutation ? { mutation: entry.mutation } : {}),
+		children: entry.children.map(outline)
+	};
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Tracer', () => {
+	afterEach(() => {
+		Tracer.stop();
+	});
+
+	test('should record nothing unless tracing', () => {
+		const count = new State(1);
+		count.value = 2;
+
+		expect(Tracer.isTracing).toBe(false);
+		expect(Instrumentation.isActive).toBe(false);
+		expect(Tracer.traces).toEqual([]);
+	});
+
+	test('should record the origin, the invalidation path and observer callbacks', () => {
+		const count = new State(1, { name: 'count' });
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		const parity = new Computed(() => doubled.use() % 2, { name: 'parity' });
+		Observer.watch(doubled, () => {}, { name: 'render' });
+		Observer.watch(parity, () => {}, { name: 'badge' });
+
+		const traces = Tracer.trace(() => count.set(2));
+
+		expect(traces.length).toBe(1);
+		expect(traces[0].origins.map(outline)).toEqual([{
+			name: 'count',
+			outcome: 'origin',
+			mutation: 'set',
+			children: [{
+				name: 'doubled',
+				outcome: 'changed',
+				children: [
+					{ name: 'parity', outcome: 'equal', children: [] },
+					{ name: 'render', outcome: 'ran', children: [] }
+				]
+			}]
+		}]);
+	});
+
+	test('should show effects and skipped nodes', () => {
+		const count = new State(1, { name: 'count' });
+		const positive = new Computed(() => count.use() > 0, { name: 'positive' });
+		const label = new Computed(() => positive.use() ? 'yes' : 'no', { name: 'label' });
+		label.onChange(() => {});
+		Observer.effect(() => { label.use(); }, { name: 'effect' });
+
+		const [trace] = Tracer.trace(() => count.set(5));
+
+		expect(outline(trace.origins[0])).toEqual({
+			name: 'count',
+			outcome: 'origin',
+			mutation: 'set',
+			children: [{
+				name: 'positive',
+				outcome: 'equal',
+				children: [{
+					name: 'label',
+					outcome: 'skipped',
+					children: [{ name: 'effect', outcome: 'skipped', children: [] }]
+				}]
+			}]
+		});
+	});
+
+	test('should mark nodes reached again through another path as repeated', () => {
+		const source = new State(1, { name: 'source' });
+		const left = new Computed(() => source.use() + 1, { name: 'left' });
+		const right = new Computed(() => source.use() + 2, { name: 'right' });
+		const sum = new Computed(() => left.use() + right.use(), { name: 'sum' });
+		sum.onChange(() => {});
+
+		const [trace] = Tracer.trace(() => source.set(2));
+		const [leftEntry, rightEntry] = trace.origins[0].children;
+
+		expect(leftEntry.children.map(outline)).toEqual([{ name: 'sum', outcome: 'changed', children: [] }]);
+		expect(rightEntry.children.map(outline)).toEqual([{ name: 'sum', outcome: 'repeated', children: [] }]);
+	});
+
+	test('should leave lazy computeds pending until they are read', () => {
+		const count = new State(1, { name: 'count' });
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		const other = new Computed(() => doubled.use() + 1);
+		other.value;
+
+		Tracer.start();
+		count.set(2);
+		const entry = Tracer.traces[0].origins[0].children[0];
+		expect(entry.outcome).toBe('pending');
+
+		doubled.value;
+		expect(entry.outcome).toBe('changed');
+		expect(entry.duration).toBeGreaterThanOrEqual(0);
+	});
+
+	test('should record every change in a batch as an origin of one wave', () => {
+		const a = new State(1, { name: 'a' });
+		const list = new ReactiveList<number>([], { name: 'list' });
+
+		const traces = Tracer.trace(() => {
+			batch(() => {
+				a.set(2);
+				list.add(1);
+			});
+			a.set(3);
+		});
+
+		expect(traces.length).toBe(2);
+		expect(traces[0].origins.map(origin => `${origin.name}: ${origin.mutation}`)).toEqual(['a: set', 'list: add']);
+		expect(traces[1].origins.map(origin => origin.name)).toEqual(['a']);
+		expect(traces[0].duration).toBeGreaterThanOrEqual(0);
+	});
+
+	test('should follow a change through an async computed into its readers', async () => {
+		const id = new State(1, { name: 'id' });
+		const user = new AsyncComputed(async () => {
+			const value = id.use();
+			await Promise.resolve();
+			return `user ${value}`;
+		}, { name: 'user' });
+		const label = new Computed(() => `Hello, ${user.use()}`, { name: 'label' });
+		Observer.watch(label, () => {}, { name: 'render' });
+		Observer.watch(user.status, () => {}, { name: 'spinner' });
+		await flushPromises();
+
+		Tracer.start();
+		id.set(2);
+		await flushPromises();
+		const traces = Tracer.stop();
+
+		expect(traces.length).toBe(2);
+		expect(traces[0].origins.map(outline)).toEqual([{
+			name: 'id',
+			outcome: 'origin',
+			mutation: 'set',
+			children: [{
+				name: 'user',
+				outcome: 'ran',
+				children: [{ name: 'spinner', outcome: 'ran', children: [] }]
+			}]
+		}]);
+		expect(traces[1].origins.map(outline)).toEqual([{
+			name: 'user',
+			outcome: 'origin',
+			mutation: 'resolved',
+			children: [
+				{
+					name: 'label',
+					outcome: 'changed',
+					children: [{ name: 'render', outcome: 'ran', children: [] }]
+				},
+				{ name: 'spinner', outcome: 'ran', children: [] }
+			]
+		}]);
+	});
+
+	test('should format a wave as an indented tree', () => {
+		const count = new State(1, { name: 'count' });
+		const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+		Observer.watch(doubled, () => {}, { name: 'render' });
+
+		const [trace] = Tracer.trace(() => count.set(2));
+
+		expect(Tracer.format(trace).replace(/ \(\d+\.\d+ms\)/g, '')).toBe([
+			'Wave',
+			'  count: set',
+			'    doubled: changed',
+			'      render: callback'
+		].join('\n'));
+	});
+
+	test('should discard earlier traces when restarted', () => {
+		const count = new State(1);
+
+		Tracer.trace(() => count.set(2));
+		Tracer.start();
+
+		expect(Tracer.traces).toEqual([]);
+	});
+});
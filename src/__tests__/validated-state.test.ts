@@ -0,0 +1,152 @@
+import { ValidatedState } from '../validated-state';
+import { State } from '../state';
+import { Computed } from '../computed';
+import { Observer } from '../observer';
+import { Scope } from '../scope';
+
+describe('ValidatedState', () => {
+	const required = (value: string) => value.length === 0 ? 'Required' : null;
+	const maxLength = (max: number) => (value: string) => value.length > max ? `At most ${max} characters` : null;
+
+	test('should validate the initial value', () => {
+		const name = new ValidatedState<string>('', { validators: [required] });
+
+		expect(name.value).toBe('');
+		expect(name.errors.value).toEqual(['Required']);
+		expect(name.isValid.value).toBe(false);
+	});
+
+	test('should validate every value that is set', () => {
+		const name = new ValidatedState<string>('Ada', { validators: [required, maxLength(5)] });
+		expect(name.isValid.value).toBe(true);
+
+		name.set('Ada Lovelace');
+		expect(name.value).toBe('Ada Lovelace');
+		expect(name.errors.value).toEqual(['At most 5 characters']);
+
+		name.value = 'Grace';
+		expect(name.errors.value).toEqual([]);
+		expect(name.isValid.value).toBe(true);
+	});
+
+	test('validators may return several messages', () => {
+		const code = new ValidatedState<string>('ab', {
+			validators: [value => [
+				...(value.length < 3 ? ['Too short'] : []),
+				...(/\d/.test(value) ? [] : ['Needs a digit'])
+			]]
+		});
+
+		expect(code.errors.value).toEqual(['Too short', 'Needs a digit']);
+	});
+
+	test('the reject policy should keep the current value', () => {
+		const age = new ValidatedState(30, {
+			validators: [value => value < 0 ? 'Must not be negative' : null],
+			policy: 'reject'
+		});
+		const callback = jest.fn();
+		age.onChange(callback);
+
+		age.set(-1);
+		expect(age.value).toBe(30);
+		expect(callback).not.toHaveBeenCalled();
+		expect(age.errors.value).toEqual(['Must not be negative']);
+
+		age.set(31);
+		expect(age.value).toBe(31);
+		expect(age.isValid.value).toBe(true);
+	});
+
+	test('validate() should check a value without setting it', () => {
+		const name = new ValidatedState<string>('Ada', { validators: [required] });
+
+		expect(name.validate('')).toEqual(['Required']);
+		expect(name.value).toBe('Ada');
+		expect(name.isValid.value).toBe(true);
+	});
+
+	test('errors should be reactive', () => {
+		const name = new ValidatedState<string>('Ada', { validators: [required] });
+		const callback = jest.fn();
+		Observer.watch(name.isValid, callback);
+		callback.mockClear();
+
+		name.set('');
+		expect(callback).toHaveBeenCalledWith(false, true, expect.anything());
+		name.set('Grace');
+		expect(callback).toHaveBeenCalledWith(true, false, expect.anything());
+	});
+
+	test('errors should not notify when the messages stay the same', () => {
+		const name = new ValidatedState<string>('', { validators: [required] });
+		const callback = jest.fn();
+		name.errors.onChange(callback);
+		name.errors.value;
+
+		name.set('');
+		name.set('a');
+		name.set('b');
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	// Cross-field validation tests
+	test('cross-field validators should report errors over several states', () => {
+		const password = new State('secret');
+		const confirmation = new ValidatedState<string>('secret', { validators: [required] });
+		confirmation.addCrossValidator(new Computed(() => confirmation.use() !== password.use() ? 'Passwords do not match' : null));
+		expect(confirmation.isValid.value).toBe(true);
+
+		password.set('changed');
+		expect(confirmation.errors.value).toEqual(['Passwords do not match']);
+
+		confirmation.set('');
+		expect(confirmation.errors.value).toEqual(['Required', 'Passwords do not match']);
+
+		confirmation.set('changed');
+		expect(confirmation.isValid.value).toBe(true);
+	});
+
+	test('cross-field validators should not reject values', () => {
+		const min = new State(10);
+		const max = new ValidatedState(20, { policy: 'reject' });
+		max.addCrossValidator(new Computed(() => max.use() < min.use() ? 'Must be at least the minimum' : null));
+
+		max.set(5);
+		expect(max.value).toBe(5);
+		expect(max.errors.value).toEqual(['Must be at least the minimum']);
+	});
+
+	test('cross-field validators can be given in the options', () => {
+		const start = new State(5);
+		const end = new State(3);
+		const range = new ValidatedState<string>('range', {
+			crossValidators: [new Computed(() => end.use() < start.use() ? 'End must not be before start' : null)]
+		});
+		expect(range.errors.value).toEqual(['End must not be before start']);
+
+		end.set(8);
+		expect(range.isValid.value).toBe(true);
+	});
+
+	test('addCrossValidator() should return a function that removes the validator', () => {
+		const flag = new State(true);
+		const field = new ValidatedState<string>('x');
+		const remove = field.addCrossValidator(new Computed(() => flag.use() ? 'Flagged' : null));
+		expect(field.errors.value).toEqual(['Flagged']);
+
+		remove();
+		expect(field.isValid.value).toBe(true);
+	});
+
+	test('dispose() should release the state and its error reporting', () => {
+		const scope = new Scope();
+		const name = new ValidatedState<string>('', { validators: [required], scope });
+		const callback = jest.fn();
+		name.errors.onChange(callback);
+
+		scope.dispose();
+		name.set('Ada');
+		expect(callback).not.toHaveBeenCalled();
+	});
+});
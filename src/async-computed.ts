@@ -0,0 +1,337 @@
+import { IDependent, IDisposable, IInspectable, IObservable, IReactive, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { State } from './state';
+import { Computed } from './computed';
+import { Scope } from './scope';
+import { EqualityOption } from './equality';
+
+/**
+ * The state of the latest run of an AsyncComputed.
+ * - `'loading'`: a run is in flight; the value still holds the result of the previous successful run
+ * - `'ready'`: the latest run resolved and its result is the current value
+ * - `'error'`: the latest run rejected; the error is available and the value holds the last successful result
+ */
+export type AsyncStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * Options for creating an AsyncComputed.
+ */
+export interface AsyncComputedOptions<T> {
+	/**
+	 * The scope that owns the async computed and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * The value to hold until the first run resolves. Defaults to undefined.
+	 */
+	initialValue?: T;
+
+	/**
+	 * How to decide whether a resolved value differs from the current one. Defaults to `'strict'` (`===`).
+	 */
+	equals?: EqualityOption<T | undefined>;
+}
+
+/**
+ * Represents a value derived from an asynchronous function, with reactive loading and error states.
+ * Dependencies are the reactive values read before the function's first `await`; when any of them
+ * change, the in-flight run is aborted through its AbortSignal and a new run starts. Results of
+ * stale runs are ignored even if the function does not observe the signal.
+ *
+ * @example
+ * ```typescript
+ * const userId = new State(1);
+ * const user = new AsyncComputed(async signal => {
+ *   const id = userId.use(); // Read dependencies before the first await
+ *   const response = await fetch(`/users/${id}`, { signal });
+ *   return response.json();
+ * });
+ *
+ * Observer.watch(user.status, status => console.log(status)); // 'loading', then 'ready'
+ * ```
+ */
+export class AsyncComputed<T> implements IDependent, IReactive<T | undefined>, IDisposable, IInspectable {
+	private fetchFunc: (signal: AbortSignal) => Promise<T>;
+	private dependencies: Set<IObservable> = new Set<IObservable>();
+	private dependencyVersions: Map<IObservable, number> = new Map();
+	private controller: AbortController | null = null;
+	private isScheduled: boolean = false;
+	private _isDisposed: boolean = false;
+	private scope: Scope | null;
+
+	private _value: State<T | undefined>;
+	private _status: State<AsyncStatus> = new State<AsyncStatus>('loading', { owner: this });
+	private _error: State<unknown> = new State<unknown>(undefined, { owner: this });
+
+	/**
+	 * The state of the latest run.
+	 */
+	readonly status: Computed<AsyncStatus>;
+
+	/**
+	 * The error the latest run rejected with, or undefined if it did not fail.
+	 */
+	readonly error: Computed<unknown>;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Creates a new async computed and starts its first run.
+	 */
+	constructor(fetchFunc: (signal: AbortSignal) => Promise<T>, options: AsyncComputedOptions<T> = {}) {
+		this.fetchFunc = fetchFunc;
+		this.name = options.name;
+		this._value = new State<T | undefined>(options.initialValue, { equals: options.equals, owner: this });
+		this.status = new Computed(() => this._status.use(), { owner: this });
+		this.error = new Computed(() => this._error.use(), { owner: this });
+
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+
+		this.run();
+	}
+
+	/**
+	 * Gets the latest resolved value without tracking dependencies.
+	 */
+	get value(): T | undefined {
+		return this._value.peek();
+	}
+
+	/**
+	 * Sets the current value.
+	 * @throws Error Async computed values cannot be set directly
+	 */
+	set(newValue: T | undefined): void {
+		throw new Error("Cannot set the value of an async computed. The value is derived from its dependencies.");
+	}
+
+	/**
+	 * Gets the latest resolved value without tracking dependencies.
+	 */
+	peek(): T | undefined {
+		return this._value.peek();
+	}
+
+	/**
+	 * Gets the latest resolved value and tracks this as a dependency.
+	 */
+	use(): T | undefined {
+		DependencyTracker.trackDependency(this);
+		return this._value.peek();
+	}
+
+	/**
+	 * Gets whether the value is derived from other nodes, which is always the case for an async computed.
+	 */
+	get isDerived(): boolean {
+		return true;
+	}
+
+	/**
+	 * Gets whether the async computed has been disposed.
+	 */
+	get isDisposed(): boolean {
+		return this._isDisposed;
+	}
+
+	/**
+	 * Gets the depth of this async computed in the dependency graph, one above its highest dependency.
+	 */
+	get height(): number {
+		let height = 0;
+		this.dependencies.forEach(dependency => {
+			height = Math.max(height, (dependency.height ?? 0) + 1);
+		});
+		return height;
+	}
+
+	/**
+	 * Aborts any in-flight run and starts a new one, re-collecting dependencies.
+	 */
+	refresh(): void {
+		Instrumentation.origin(this, 'refresh');
+		this.run();
+	}
+
+	/**
+	 * Schedules a new run once the current batch has settled, unless none of the dependencies actually changed.
+	 */
+	invalidate(): void {
+		if (!this._isDisposed && !this.isScheduled) {
+			this.isScheduled = true;
+			Batch.enqueue(this, () => {
+				this.isScheduled = false;
+				if (DependencyTracker.hasChanged(this.dependencyVersions)) {
+					this.run();
+				} else {
+					Instrumentation.evaluate(this, 'skipped', Instrumentation.now());
+				}
+			}, this.height);
+		}
+	}
+
+	/**
+	 * Registers a callback for when a run resolves to a new value.
+	 * @param callback The function to call with the new value, the previous value and details of the change
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onChange(callback: ChangeListener<T | undefined>): () => void {
+		return this._value.onChange((value, previousValue) => callback(value, previousValue, { source: this }));
+	}
+
+	/**
+	 * Adds a dependent to this async computed.
+	 */
+	addDependent(dependent: IDependent): void {
+		this._value.addDependent(dependent);
+	}
+
+	/**
+	 * Removes a dependent from this async computed.
+	 */
+	removeDependent(dependent: IDependent): void {
+		this._value.removeDependent(dependent);
+	}
+
+	/**
+	 * Notifies all dependents that this async computed has changed.
+	 */
+	notifyDependents(): void {
+		this._value.notifyDependents();
+	}
+
+	/**
+	 * Gets the nodes read by the latest run before its first await.
+	 */
+	getDependencies(): IObservable[] {
+		return Array.from(this.dependencies);
+	}
+
+	/**
+	 * Gets the nodes that currently read this async computed.
+	 */
+	getDependents(): IDependent[] {
+		return this._value.getDependents();
+	}
+
+	/**
+	 * Gets the number of change listeners registered on this async computed.
+	 */
+	getListenerCount(): number {
+		return this._value.getListenerCount();
+	}
+
+	/**
+	 * Gets a number that changes whenever a run resolves to a new value.
+	 */
+	getVersion(): number {
+		return this._value.getVersion();
+	}
+
+	/**
+	 * Aborts any in-flight run, unsubscribes from dependencies, drops dependents and listeners, and leaves its scope.
+	 */
+	dispose(): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this._isDisposed = true;
+		this.abort();
+
+		this.dependencies.forEach(dependency => {
+			dependency.removeDependent(this);
+		});
+		this.dependencies.clear();
+
+		this._value.dispose();
+		this.status.dispose();
+		this.error.dispose();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	/**
+	 * Starts a new run, tracking the dependencies read before its first await.
+	 */
+	private run(): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		const startTime = Instrumentation.now();
+
+		// Dependencies read before a synchronous throw are kept, so the next change can retry
+		const outcome = DependencyTracker.tryTrack(this, () => this.fetchFunc(controller.signal));
+		this.setDependencies(this.dependencies, outcome.dependencies);
+		Instrumentation.evaluate(this, outcome.succeeded ? 'ran' : 'failed', startTime);
+		const promise = outcome.succeeded ? outcome.result : Promise.reject(outcome.error);
+
+		this._status.set('loading');
+
+		promise.then(
+			value => {
+				if (this.controller === controller) {
+					this.controller = null;
+					Batch.run(() => {
+						Instrumentation.origin(this, 'resolved');
+						this._value.set(value);
+						this._error.set(undefined);
+						this._status.set('ready');
+					});
+				}
+			},
+			error => {
+				if (this.controller === controller) {
+					this.controller = null;
+					Batch.run(() => {
+						Instrumentation.origin(this, 'rejected');
+						this._error.set(error);
+						this._status.set('error');
+					});
+				}
+			}
+		);
+	}
+
+	/**
+	 * Replaces the tracked dependencies, unsubscribing from those no longer read.
+	 */
+	private setDependencies(previousDependencies: Set<IObservable>, dependencies: Set<IObservable>): void {
+		previousDependencies.forEach(dependency => {
+			if (!dependencies.has(dependency)) {
+				dependency.removeDependent(this);
+			}
+		});
+
+		this.dependencies = dependencies;
+		this.dependencyVersions = DependencyTracker.captureVersions(dependencies);
+	}
+
+	/**
+	 * Aborts the in-flight run, if any.
+	 */
+	private abort(): void {
+		if (this.controller) {
+			this.controller.abort();
+			this.controller = null;
+		}
+	}
+}
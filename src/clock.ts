@@ -0,0 +1,160 @@
+/**
+ * A source of ticks that drives animations such as springs.
+ */
+export interface IClock {
+	/**
+	 * Registers a callback to run on every tick while it is subscribed.
+	 * @param callback The function to call with the time since the previous tick, in seconds
+	 * @returns A function that can be called to unsubscribe the callback
+	 */
+	subscribe(callback: (deltaTime: number) => void): () => void;
+}
+
+/**
+ * A clock that only ticks when told to, for deterministic tests and fixed-step simulations.
+ */
+export interface IManualClock extends IClock {
+	/**
+	 * Advances the clock, running every subscribed callback once.
+	 * @param deltaTime The time to advance by, in seconds
+	 */
+	tick(deltaTime: number): void;
+}
+
+/**
+ * Keeps the subscribed callbacks of a clock and runs them on each tick.
+ */
+class ManualClock implements IManualClock {
+	protected callbacks: Set<(deltaTime: number) => void> = new Set();
+
+	subscribe(callback: (deltaTime: number) => void): () => void {
+		this.callbacks.add(callback);
+		return () => {
+			this.callbacks.delete(callback);
+		};
+	}
+
+	tick(deltaTime: number): void {
+		// Copy, as callbacks often unsubscribe themselves when they come to rest
+		Array.from(this.callbacks).forEach(callback => callback(deltaTime));
+	}
+}
+
+/**
+ * Ticks with the real time elapsed, asking a strategy function for each next tick while anything is subscribed.
+ */
+class LoopClock extends ManualClock {
+	private isRunning: boolean = false;
+	private lastTime: number = 0;
+	private requestTick: (tick: () => void) => void;
+
+	/**
+	 * @param requestTick Arranges for the given function to be called at the next tick
+	 */
+	constructor(requestTick: (tick: () => void) => void) {
+		super();
+		this.requestTick = requestTick;
+	}
+
+	subscribe(callback: (deltaTime: number) => void): () => void {
+		const unsubscribe = super.subscribe(callback);
+
+		if (!this.isRunning) {
+			this.isRunning = true;
+			this.lastTime = now();
+			this.requestTick(() => this.loop());
+		}
+
+		return unsubscribe;
+	}
+
+	/**
+	 * Runs one tick and requests the next, stopping once nothing is subscribed.
+	 */
+	private loop(): void {
+		if (this.callbacks.size === 0) {
+			this.isRunning = false;
+			return;
+		}
+
+		const time = now();
+		const deltaTime = (time - this.lastTime) / 1000;
+		this.lastTime = time;
+
+		try {
+			this.tick(deltaTime);
+		} finally {
+			this.requestTick(() => this.loop());
+		}
+	}
+}
+
+/**
+ * Gets a timestamp in milliseconds.
+ */
+function now(): number {
+	return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Built-in clocks, and the default used by springs.
+ *
+ * @example
+ * ```typescript
+ * // Drive every spring by hand in tests
+ * const clock = Clock.manual();
+ * Clock.default = clock;
+ * clock.tick(1 / 60);
+ *
+ * // Or only one spring
+ * const position = new Spring(target, { clock: Clock.timer(10) });
+ * ```
+ */
+export class Clock {
+	private static _default: IClock | null = null;
+
+	/**
+	 * Gets or sets the clock used by springs that are not given one. Defaults to a shared Clock.frame().
+	 */
+	static get default(): IClock {
+		if (!this._default) {
+			this._default = Clock.frame();
+		}
+		return this._default;
+	}
+
+	static set default(clock: IClock) {
+		this._default = clock;
+	}
+
+	/**
+	 * Creates a clock that ticks before every animation frame,
+	 * falling back to a 16ms timer where requestAnimationFrame is unavailable.
+	 */
+	static frame(): IClock {
+		return new LoopClock(tick => {
+			if (typeof requestAnimationFrame === 'function') {
+				requestAnimationFrame(() => tick());
+			} else {
+				setTimeout(tick, 16);
+			}
+		});
+	}
+
+	/**
+	 * Creates a clock that ticks at a fixed interval.
+	 * @param interval The time between ticks in milliseconds
+	 */
+	static timer(interval: number = 16): IClock {
+		return new LoopClock(tick => {
+			setTimeout(tick, interval);
+		});
+	}
+
+	/**
+	 * Creates a clock that only ticks when tick() is called.
+	 */
+	static manual(): IManualClock {
+		return new ManualClock();
+	}
+}
@@ -0,0 +1,188 @@
+/**
+ * Turns values into strings for storage and back.
+ */
+export interface ICodec<T> {
+	/**
+	 * Converts a value to its stored form.
+	 */
+	encode(value: T): string;
+
+	/**
+	 * Converts a stored string back to a value.
+	 * @throws Error If the data is not in the expected format
+	 */
+	decode(data: string): T;
+}
+
+/**
+ * Teaches the JSON codec to store a type that JSON cannot represent, such as Date, Map or Set.
+ * Values of the type are written as `{ "$type": type, "value": encode(value) }`.
+ * Objects of your own that have a `$type` key are stored with the key escaped, so they are never mistaken for tagged values.
+ */
+export interface ITypeCodec<T = any> {
+	/**
+	 * The tag written to the stored JSON, which must be unique among the types given to a codec.
+	 */
+	readonly type: string;
+
+	/**
+	 * Checks whether a value is of this type.
+	 */
+	test(value: unknown): value is T;
+
+	/**
+	 * Converts a value to a JSON-friendly form. Nested values are encoded in turn.
+	 */
+	encode(value: T): unknown;
+
+	/**
+	 * Converts the JSON-friendly form back to a value. Nested values have already been decoded.
+	 */
+	decode(data: any): T;
+}
+
+/**
+ * A JSON codec that stores the given types with tags so they come back as what they were.
+ */
+class JsonCodec<T> implements ICodec<T> {
+	private types: ITypeCodec[];
+
+	constructor(types: ITypeCodec[]) {
+		this.types = types;
+	}
+
+	encode(value: T): string {
+		const types = this.types;
+
+		// The holder gives the value before toJSON(), which would already have turned a Date into a string
+		return JSON.stringify(value, function (this: any, key: string, converted: unknown) {
+			const original = this[key];
+			const type = types.find(candidate => candidate.test(original));
+			if (type) {
+				return { $type: type.type, value: type.encode(original) };
+			}
+			return isObject(converted) ? escapeTypeKeys(converted) : converted;
+		});
+	}
+
+	decode(data: string): T {
+		return JSON.parse(data, (key, value) => {
+			if (value !== null && typeof value === 'object' && typeof value.$type === 'string') {
+				const type = this.types.find(candidate => candidate.type === value.$type);
+				if (type) {
+					return type.decode(value.value);
+				}
+			}
+			return isObject(value) ? unescapeTypeKeys(value) : value;
+		});
+	}
+}
+
+/**
+ * Matches `$type` and its escaped forms, `$$type`, `$$$type` and so on.
+ */
+const TYPE_KEY = /^\$+type$/;
+
+/**
+ * Matches only the escaped forms of `$type`.
+ */
+const ESCAPED_TYPE_KEY = /^\$\$+type$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Adds a `$` to every `$type`-like key of an object, so that a stored `$type` key always belongs to a tagged value.
+ */
+function escapeTypeKeys(value: Record<string, unknown>): Record<string, unknown> {
+	return renameKeys(value, TYPE_KEY, key => `$${key}`);
+}
+
+/**
+ * Removes the `$` added by escapeTypeKeys().
+ */
+function unescapeTypeKeys(value: Record<string, unknown>): Record<string, unknown> {
+	return renameKeys(value, ESCAPED_TYPE_KEY, key => key.slice(1));
+}
+
+/**
+ * Returns a copy of an object with the matching keys renamed and in the same order, or the object itself if no key matches.
+ */
+function renameKeys(value: Record<string, unknown>, pattern: RegExp, rename: (key: string) => string): Record<string, unknown> {
+	const keys = Object.keys(value);
+	if (!keys.some(key => pattern.test(key))) {
+		return value;
+	}
+
+	const renamed: Record<string, unknown> = {};
+	for (const key of keys) {
+		renamed[pattern.test(key) ? rename(key) : key] = value[key];
+	}
+	return renamed;
+}
+
+/**
+ * Built-in codecs for persisting values.
+ *
+ * @example
+ * ```typescript
+ * // Dates, Maps and Sets survive by default
+ * const codec = Codec.json<Map<string, Date>>();
+ *
+ * // Add your own types
+ * const pointCodec: ITypeCodec<Point> = {
+ *   type: 'Point',
+ *   test: (value): value is Point => value instanceof Point,
+ *   encode: point => [point.x, point.y],
+ *   decode: ([x, y]) => new Point(x, y)
+ * };
+ * const withPoints = Codec.json([...Codec.defaultTypes, pointCodec]);
+ * ```
+ */
+export class Codec {
+	/**
+	 * Stores a Date as its ISO string.
+	 */
+	static readonly date: ITypeCodec<Date> = {
+		type: 'Date',
+		test: (value): value is Date => value instanceof Date,
+		encode: date => date.toISOString(),
+		decode: data => new Date(data)
+	};
+
+	/**
+	 * Stores a Map as an array of entries.
+	 */
+	static readonly map: ITypeCodec<Map<unknown, unknown>> = {
+		type: 'Map',
+		test: (value): value is Map<unknown, unknown> => value instanceof Map,
+		encode: map => Array.from(map.entries()),
+		decode: data => new Map(data)
+	};
+
+	/**
+	 * Stores a Set as an array of members.
+	 */
+	static readonly set: ITypeCodec<Set<unknown>> = {
+		type: 'Set',
+		test: (value): value is Set<unknown> => value instanceof Set,
+		encode: set => Array.from(set),
+		decode: data => new Set(data)
+	};
+
+	/**
+	 * The types the JSON codec handles unless told otherwise: Date, Map and Set.
+	 */
+	static get defaultTypes(): ITypeCodec[] {
+		return [Codec.date, Codec.map, Codec.set];
+	}
+
+	/**
+	 * Creates a codec that stores values as JSON.
+	 * @param types The types to store with tags so they are restored as what they were
+	 */
+	static json<T>(types: ITypeCodec[] = Codec.defaultTypes): ICodec<T> {
+		return new JsonCodec<T>(types);
+	}
+}
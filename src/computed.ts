@@ -1,26 +1,134 @@
-import { IDependent, IObservable, IReactive, DependencyTracker } from './core';
+import { IDependent, IDisposable, IInspectable, IObservable, IReactive, ChangeInfo, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { Scope } from './scope';
+import { EqualityFunction, EqualityOption, resolveEquality } from './equality';
+import { Scheduler } from './scheduler';
+
+/**
+ * Options for creating a Computed.
+ */
+export interface ComputedOptions<T> {
+	/**
+	 * The scope that owns the computed and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Whether to dispose the computed automatically once its last dependent and last change listener are removed.
+	 * A computed that has never had a dependent or listener is not disposed.
+	 */
+	autoDispose?: boolean;
+
+	/**
+	 * How to decide whether a recomputed value differs from the previous one. Defaults to `'strict'` (`===`).
+	 * When the values are equal, the previous value is kept and neither listeners nor dependents see a change.
+	 */
+	equals?: EqualityOption<T>;
+
+	/**
+	 * The node this computed is part of, such as the async computed whose status it reports.
+	 * Introspection and instrumentation report the owner in its place, and leave changes to it for the owner to report.
+	 */
+	owner?: object;
+}
+
+/**
+ * The two halves of a writable computed: how to derive the value, and how to write a new value back to its sources.
+ */
+export interface WritableComputedAccessors<T> {
+	/**
+	 * Derives the value from other reactive values, like the compute function of a read-only computed.
+	 */
+	get: () => T;
+
+	/**
+	 * Writes a new value back to the sources it is derived from. Runs as one batch.
+	 */
+	set: (value: T) => void;
+}
 
 /**
  * Represents a computed value that automatically updates when its dependencies change.
+ * Created with `{ get, set }` instead of a compute function, it is writable: setting it
+ * writes back to its sources, and the value is derived from them again.
+ *
+ * @example
+ * ```typescript
+ * const celsius = new State(20);
+ * const fahrenheit = new Computed({
+ *   get: () => celsius.use() * 9 / 5 + 32,
+ *   set: value => celsius.set((value - 32) * 5 / 9)
+ * });
+ *
+ * fahrenheit.set(212); // celsius becomes 100
+ * ```
  */
-export class Computed<T> implements IDependent, IReactive<T> {
+export class Computed<T> implements IDependent, IReactive<T>, IDisposable, IInspectable {
 	private computeFunc: () => T;
+	private setFunc: ((value: T) => void) | null;
 	private cachedValue: T;
 	private isDirty: boolean = true;
+	private hasValue: boolean = false;
+	private version: number = 0;
 	private dependencies: Set<IObservable> = new Set<IObservable>();
+	private dependencyVersions: Map<IObservable, number> = new Map();
 	private dependents: Set<IDependent> = new Set<IDependent>();
-	private listeners: Set<(value: T) => void> = new Set();
+	private listeners: Set<ChangeListener<T>> = new Set();
+	private pendingDelivery: { previousValue: T } | null = null;
+	private errorListeners: Set<(error: unknown) => void> = new Set();
+	private hasError: boolean = false;
+	private errorValue: unknown = undefined;
 	private _forceEager: boolean = false;
+	private _height: number = 0;
+	private scope: Scope | null;
+	private autoDispose: boolean;
+	private _isDisposed: boolean = false;
+	private equalityFunc: EqualityFunction<T>;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * The node this computed is part of, reported in its place by introspection and instrumentation.
+	 */
+	readonly owner?: object;
 
 	/**
 	 * Creates a new computed value with the given compute function.
 	 */
-	constructor(computeFunc: () => T) {
-		this.computeFunc = computeFunc;
+	constructor(computeFunc: () => T, options?: ComputedOptions<T>);
+
+	/**
+	 * Creates a new writable computed value that writes back to its sources through the given setter.
+	 */
+	constructor(accessors: WritableComputedAccessors<T>, options?: ComputedOptions<T>);
+
+	constructor(computeFuncOrAccessors: (() => T) | WritableComputedAccessors<T>, options: ComputedOptions<T> = {}) {
+		if (typeof computeFuncOrAccessors === 'function') {
+			this.computeFunc = computeFuncOrAccessors;
+			this.setFunc = null;
+		} else {
+			this.computeFunc = computeFuncOrAccessors.get;
+			this.setFunc = computeFuncOrAccessors.set;
+		}
 		this.cachedValue = null as unknown as T;
+		this.name = options.name;
+		this.owner = options.owner;
+		this.equalityFunc = resolveEquality(options.equals);
+		this.autoDispose = options.autoDispose ?? false;
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
 
 		// Immediately evaluate the computed value to establish dependencies
-		const _ = this.value;
+		this.refresh();
 	}
 
 	/**
@@ -31,32 +139,82 @@ export class Computed<T> implements IDependent, IReactive<T> {
 	}
 
 	/**
-	 * Sets the current value.
+	 * Gets whether the computed was created with a setter, so that it can be set.
+	 */
+	get isWritable(): boolean {
+		return this.setFunc !== null;
+	}
+
+	/**
+	 * Gets whether the value is derived from other nodes, which is always the case for a computed,
+	 * even one that writes back to its sources.
+	 */
+	get isDerived(): boolean {
+		return true;
+	}
+
+	/**
+	 * Sets the current value by writing it back to the sources through the setter.
 	 * @param newValue The new value to set
-	 * @throws Error Computed values cannot be set directly
+	 * @throws Error If the computed is not writable
 	 */
 	set(newValue: T): void {
-		throw new Error("Cannot set the value of a computed. The value is derived from its dependencies.");
+		if (!this.setFunc) {
+			throw new Error("Cannot set the value of a computed. The value is derived from its dependencies.");
+		}
+
+		const setFunc = this.setFunc;
+		Batch.run(() => setFunc(newValue));
 	}
 
 	/**
 	 * Gets the current value without tracking dependencies.
+	 * Once disposed, returns the last computed value.
+	 * @throws The error thrown by the compute function, if the latest evaluation failed
 	 */
 	peek(): T {
-		// If the value is dirty, recalculate it
-		if (this.isDirty) {
-			this.recompute();
+		this.refresh();
+
+		if (this.hasError) {
+			throw this.errorValue;
 		}
 
 		return this.cachedValue;
 	}
 
+	/**
+	 * Gets the error thrown by the latest evaluation, or undefined if it succeeded.
+	 */
+	get error(): unknown {
+		this.refresh();
+		return this.errorValue;
+	}
+
+	/**
+	 * Brings the computed up to date without throwing.
+	 * If the value is dirty it is recalculated, unless none of the dependencies actually changed.
+	 */
+	private refresh(): void {
+		if (this.isDirty && !this._isDisposed) {
+			if (this.version === 0 || this.haveDependenciesChanged()) {
+				this.recompute();
+			} else {
+				this.isDirty = false;
+				Instrumentation.evaluate(this, 'skipped', Instrumentation.now());
+			}
+		}
+	}
+
 	/**
 	 * Gets the current value and tracks this as a dependency.
+	 * Once disposed, returns the last computed value without tracking.
+	 * @throws The error thrown by the compute function, if the latest evaluation failed
 	 */
 	use(): T {
 		// Track that the current computation depends on this computed value
-		DependencyTracker.trackDependency(this);
+		if (!this._isDisposed) {
+			DependencyTracker.trackDependency(this);
+		}
 
 		// Return the up-to-date value
 		return this.value;
@@ -64,17 +222,96 @@ export class Computed<T> implements IDependent, IReactive<T> {
 
 	/**
 	 * Recalculates the value of the computed.
+	 * If the compute function throws, the error is captured and rethrown to readers instead of escaping here.
 	 */
 	recompute() {
-		// Clear existing dependencies before recalculating
-		this.clearDependencies();
+		if (this._isDisposed) {
+			return;
+		}
+
+		const previousDependencies = this.dependencies;
+		const previousVersion = this.version;
+		const startTime = Instrumentation.now();
 
 		// Recalculate the value, tracking dependencies
-		const { dependencies, result } = DependencyTracker.track(this, this.computeFunc);
+		const outcome = DependencyTracker.tryTrack(this, this.computeFunc);
+		const dependencies = outcome.dependencies;
+
+		// Unsubscribe from anything that is no longer read. Dependencies that are still read
+		// stay subscribed throughout, so they never briefly see this computed as gone.
+		previousDependencies.forEach(dependency => {
+			if (!dependencies.has(dependency)) {
+				dependency.removeDependent(this);
+			}
+		});
 
 		this.dependencies = dependencies;
-		this.cachedValue = result;
+		this.dependencyVersions = DependencyTracker.captureVersions(dependencies);
+
+		if (outcome.succeeded) {
+			const recovered = this.hasError;
+			this.hasError = false;
+			this.errorValue = undefined;
+
+			// Keep the previous value when the new one is equal, so nothing downstream sees a change
+			if (!this.hasValue || !this.equals(this.cachedValue, outcome.result)) {
+				this.cachedValue = outcome.result;
+				this.hasValue = true;
+				this.version++;
+			} else if (recovered) {
+				this.version++;
+			}
+		} else {
+			this.hasError = true;
+			this.errorValue = outcome.error;
+			this.version++;
+		}
+
 		this.isDirty = false;
+		this.updateHeight();
+
+		if (!outcome.succeeded) {
+			Instrumentation.evaluate(this, 'failed', startTime);
+		} else {
+			Instrumentation.evaluate(this, this.version !== previousVersion ? 'changed' : 'equal', startTime);
+		}
+	}
+
+	/**
+	 * Checks whether any dependency changed since the last recalculation.
+	 * Runs in a tracking frame for this computed so that cycles through the check are reported in full.
+	 */
+	private haveDependenciesChanged(): boolean {
+		const outcome = DependencyTracker.tryTrack(this, () => DependencyTracker.hasChanged(this.dependencyVersions));
+
+		// If the check itself failed, recalculate so the failure is captured as this computed's error
+		return !outcome.succeeded || outcome.result;
+	}
+
+	/**
+	 * Brings the computed up to date and returns a number that changes whenever its value or error changes.
+	 */
+	getVersion(): number {
+		this.refresh();
+		return this.version;
+	}
+
+	/**
+	 * Gets the depth of this computed in the dependency graph, one above its highest dependency.
+	 */
+	get height(): number {
+		return this._height;
+	}
+
+	/**
+	 * Recalculates the height from the current dependencies.
+	 */
+	private updateHeight(): void {
+		let height = 0;
+		this.dependencies.forEach(dependency => {
+			height = Math.max(height, (dependency.height ?? 0) + 1);
+		});
+		this._height = height;
 	}
 
 	/**
@@ -94,50 +331,173 @@ export class Computed<T> implements IDependent, IReactive<T> {
 
 	/**
 	 * Registers a callback for value changes.
-	 * @param callback The function to call when the value changes
+	 * @param callback The function to call with the new value, the previous value and details of the change
 	 * @returns A function that can be called to unregister the callback
 	 */
-	onChange(callback: (value: T) => void): () => void {
+	onChange(callback: ChangeListener<T>): () => void {
+		if (this._isDisposed) {
+			return () => {};
+		}
+
 		this.listeners.add(callback);
 		return () => {
-			this.listeners.delete(callback);
+			if (this.listeners.delete(callback)) {
+				this.disposeIfUnused();
+			}
+		};
+	}
+
+	/**
+	 * Registers a callback for when an evaluation fails.
+	 * It is called once per failure, when the computed is recalculated after a change, with the thrown error.
+	 * @param callback The function to call with the error
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onError(callback: (error: unknown) => void): () => void {
+		if (this._isDisposed) {
+			return () => {};
+		}
+
+		this.errorListeners.add(callback);
+		return () => {
+			if (this.errorListeners.delete(callback)) {
+				this.disposeIfUnused();
+			}
 		};
 	}
 
 	/**
 	 * Invalidates the current cached value, causing a recalculation on next access.
+	 * The whole downstream graph is marked dirty before any eager recalculation runs.
 	 */
 	invalidate(): void {
-		if (!this.isDirty) {
+		if (!this.isDirty && !this._isDisposed) {
 			this.isDirty = true;
 
-			// Notify dependents immediately
-			this.notifyDependents();
-
-			// If there are listeners or forceEager is true, recalculate the value now
-			if (this.listeners.size > 0 || this._forceEager) {
-				const oldValue = this.cachedValue;
-				const newValue = this.value; // This will recalculate
-
-				if (!this.equals(oldValue, newValue)) {
-					this.listeners.forEach(listener => listener(newValue));
+			Batch.run(() => {
+				// Mark dependents dirty immediately
+				this.notifyDependents();
+
+				// If there are listeners or forceEager is true, recalculate the value once
+				// everything below this computed in the graph has been brought up to date
+				if (this.listeners.size > 0 || this.errorListeners.size > 0 || this._forceEager) {
+					const oldValue = this.cachedValue;
+					const oldError = this.errorValue;
+					const hadError = this.hasError;
+
+					Batch.enqueue(this, () => {
+						this.refresh();
+
+						if (this.hasError) {
+							if (!hadError || oldError !== this.errorValue) {
+								const error = this.errorValue;
+								Scheduler.default.schedule(this, () => {
+									this.errorListeners.forEach(listener => listener(error));
+								});
+							}
+						} else if (hadError || !this.equals(oldValue, this.cachedValue)) {
+							this.notifyListeners(oldValue);
+						}
+					}, this._height);
 				}
-			}
+			});
+		}
+	}
+
+	/**
+	 * Delivers the current value to every change listener through the default scheduler.
+	 * When deliveries are coalesced, the previous value is the one from before the first undelivered change.
+	 */
+	private notifyListeners(previousValue: T): void {
+		if (!this.pendingDelivery) {
+			this.pendingDelivery = { previousValue };
 		}
+
+		const value = this.cachedValue;
+		Scheduler.default.schedule(this, () => {
+			const previous = this.pendingDelivery ? this.pendingDelivery.previousValue : value;
+			const info: ChangeInfo = { source: this };
+			this.pendingDelivery = null;
+
+			this.listeners.forEach(listener => listener(value, previous, info));
+		});
 	}
 
 	/**
 	 * Adds a dependent to this computed value.
 	 */
 	addDependent(dependent: IDependent): void {
-		this.dependents.add(dependent);
+		if (!this._isDisposed) {
+			this.dependents.add(dependent);
+		}
 	}
 
 	/**
 	 * Removes a dependent from this computed value.
 	 */
 	removeDependent(dependent: IDependent): void {
-		this.dependents.delete(dependent);
+		if (this.dependents.delete(dependent)) {
+			this.disposeIfUnused();
+		}
+	}
+
+	/**
+	 * Gets the nodes this computed read during its latest evaluation.
+	 */
+	getDependencies(): IObservable[] {
+		return Array.from(this.dependencies);
+	}
+
+	/**
+	 * Gets the nodes that currently read this computed.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(this.dependents);
+	}
+
+	/**
+	 * Gets the number of change and error listeners registered on this computed.
+	 */
+	getListenerCount(): number {
+		return this.listeners.size + this.errorListeners.size;
+	}
+
+	/**
+	 * Gets whether the computed has been disposed.
+	 */
+	get isDisposed(): boolean {
+		return this._isDisposed;
+	}
+
+	/**
+	 * Releases the computed, unsubscribing from its dependencies, dropping its dependents
+	 * and change listeners, and leaving its scope.
+	 * A disposed computed no longer recomputes: reading it returns the last computed value.
+	 */
+	dispose(): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this._isDisposed = true;
+		this.clearDependencies();
+		this.dependents.clear();
+		this.listeners.clear();
+		this.errorListeners.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	/**
+	 * Disposes the computed if auto-disposal is enabled and nothing depends on or listens to it any more.
+	 */
+	private disposeIfUnused(): void {
+		if (this.autoDispose && this.dependents.size === 0 && this.listeners.size === 0 && this.errorListeners.size === 0) {
+			this.dispose();
+		}
 	}
 
 	/**
@@ -156,29 +516,32 @@ export class Computed<T> implements IDependent, IReactive<T> {
 	notifyDependents(): void {
 		// Create a copy to avoid issues if collection is modified during iteration
 		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this, dependent);
 			dependent.invalidate();
 		});
 	}
 
 	/**
 	 * Creates a new computed value that transforms the value of this computed.
+	 * @param options Options for the new computed, such as `autoDispose` for temporary derivations
 	 */
-	map<R>(selector: (value: T) => R): Computed<R> {
-		return new Computed<R>(() => selector(this.use()));
+	map<R>(selector: (value: T) => R, options?: ComputedOptions<R>): Computed<R> {
+		return new Computed<R>(() => selector(this.use()), options);
 	}
 
 	/**
 	 * Creates a new computed boolean value that tests a condition on this computed's value.
+	 * @param options Options for the new computed, such as `autoDispose` for temporary derivations
 	 */
-	filter(predicate: (value: T) => boolean): Computed<boolean> {
-		return new Computed<boolean>(() => predicate(this.use()));
+	filter(predicate: (value: T) => boolean, options?: ComputedOptions<boolean>): Computed<boolean> {
+		return new Computed<boolean>(() => predicate(this.use()), options);
 	}
 
 	/**
-	 * Checks if two values are equal.
+	 * Checks if two values are equal, using the comparator given in the options.
 	 */
 	private equals(a: T, b: T): boolean {
-		return a === b;
+		return this.equalityFunc(a, b);
 	}
 
 	//#region Reactive List Methods
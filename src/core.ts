@@ -23,6 +23,23 @@ export interface IObservable {
 	 * Removes a dependent from this observable.
 	 */
 	removeDependent(dependent: IDependent): void;
+
+	/**
+	 * The depth of this observable in the dependency graph.
+	 * Sources such as State have a height of 0 (the default); derived values sit above everything they read.
+	 */
+	readonly height?: number;
+
+	/**
+	 * An optional debug name, used when reporting errors.
+	 */
+	readonly name?: string;
+
+	/**
+	 * Brings the observable up to date and returns a number that changes whenever its value changes.
+	 * Dependents use this to skip recalculation when none of their dependencies actually changed.
+	 */
+	getVersion?(): number;
 }
 
 /**
@@ -35,6 +52,25 @@ export interface INotifiable {
 	notifyDependents(): void;
 }
 
+/**
+ * Describes a delivered change.
+ */
+export interface ChangeInfo {
+	/**
+	 * The node whose value changed.
+	 */
+	readonly source: IObservable;
+}
+
+/**
+ * A callback for value changes.
+ * Single-argument callbacks remain valid; the previous value and change info are optional to consume.
+ * @param value The new value
+ * @param previousValue The value at the previous delivery to listeners
+ * @param info Details of the change
+ */
+export type ChangeListener<T, I extends ChangeInfo = ChangeInfo> = (value: T, previousValue: T, info: I) => void;
+
 /**
  * Represents a reactive value that can be observed.
  */
@@ -62,57 +98,607 @@ export interface IReactive<T> extends IObservable, INotifiable {
 
 	/**
 	 * Registers a callback for value changes.
-	 * @param callback The function to call when the value changes
+	 * @param callback The function to call with the new value, the previous value and details of the change
 	 * @returns A function that can be called to unregister the callback
 	 */
-	onChange(callback: (value: T) => void): () => void;
+	onChange(callback: ChangeListener<T>): () => void;
+
+	/**
+	 * Whether the value is derived from other nodes rather than held by this one, so that saving and
+	 * restoring it would be meaningless. Nodes that leave it out hold their own value.
+	 */
+	readonly isDerived?: boolean;
+}
+
+/**
+ * Represents an object that holds resources which can be released.
+ */
+export interface IDisposable {
+	/**
+	 * Releases the resources held by this object.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Interface for graph nodes that can describe their connections, for debugging and graph export.
+ * Every member is optional; a node reports what it knows about itself.
+ */
+export interface IInspectable {
+	/**
+	 * An optional debug name, shown when inspecting or exporting the graph.
+	 */
+	readonly name?: string;
+
+	/**
+	 * The node this object tracks dependencies on behalf of or is part of, such as the Observer running an effect.
+	 * Introspection and instrumentation report the owner in its place.
+	 */
+	readonly owner?: object;
+
+	/**
+	 * Gets the nodes this node currently reads.
+	 */
+	getDependencies?(): IObservable[];
+
+	/**
+	 * Gets the nodes that currently read this node.
+	 */
+	getDependents?(): IDependent[];
+
+	/**
+	 * Gets the number of callbacks registered for changes to this node.
+	 */
+	getListenerCount?(): number;
+}
+
+//#endregion
+//#region Errors
+
+/**
+ * Gets a readable label for a node, preferring its debug name.
+ */
+export function describeNode(node: object): string {
+	const name = (node as { name?: unknown }).name;
+	return typeof name === 'string' && name.length > 0
+		? name
+		: node.constructor.name;
+}
+
+/**
+ * Thrown when a node ends up depending on itself, either by reading itself during evaluation
+ * or by listeners that keep re-triggering each other without settling.
+ */
+export class CircularDependencyError extends Error {
+	/**
+	 * The nodes forming the cycle, starting and ending with the same node.
+	 */
+	readonly chain: object[];
+
+	constructor(chain: object[]) {
+		super(`Circular dependency detected: ${chain.map(describeNode).join(' -> ')}`);
+		this.name = 'CircularDependencyError';
+		this.chain = chain;
+	}
 }
 
 //#endregion
 //#region Dependency Tracker
 
+/**
+ * A single dependent being evaluated, together with the dependencies it has read so far.
+ */
+interface TrackingFrame {
+	dependent: IDependent;
+	dependencies: Set<IObservable>;
+}
+
+/**
+ * The outcome of a tracked evaluation that may have thrown.
+ */
+export type TrackResult<T> =
+	| { dependencies: Set<IObservable>, succeeded: true, result: T }
+	| { dependencies: Set<IObservable>, succeeded: false, error: unknown };
+
 /**
  * Static class for tracking dependencies during computation.
+ * Each call to track() opens its own frame, so a nested evaluation (such as an outer computed
+ * reading a dirty inner computed) collects into its own set without touching the outer one.
  */
 export class DependencyTracker {
-	private static dependentStack: IDependent[] = [];
-	private static currentDependencies: Set<IObservable> = new Set();
+	private static frameStack: TrackingFrame[] = [];
+
+	/**
+	 * Gets the innermost tracking frame, if any.
+	 */
+	private static get currentFrame(): TrackingFrame | undefined {
+		return this.frameStack.length > 0
+			? this.frameStack[this.frameStack.length - 1]
+			: undefined;
+	}
 
 	/**
 	 * Gets the current dependent being tracked, if any.
 	 */
 	static get currentDependent(): IDependent | undefined {
-		return this.dependentStack.length > 0
-			? this.dependentStack[this.dependentStack.length - 1]
-			: undefined;
+		return this.currentFrame?.dependent;
 	}
 
 	/**
 	 * Executes the specified function with dependency tracking.
+	 * @throws CircularDependencyError If the dependent is already being evaluated further up the stack
 	 */
 	static track<T>(dependent: IDependent, func: () => T): { dependencies: Set<IObservable>, result: T } {
-		this.dependentStack.push(dependent);
-		this.currentDependencies.clear();
+		const outcome = this.tryTrack(dependent, func);
+		if (!outcome.succeeded) {
+			throw outcome.error;
+		}
 
-		try {
-			const result = func();
+		return {
+			dependencies: outcome.dependencies,
+			result: outcome.result
+		};
+	}
+
+	/**
+	 * Executes the specified function with dependency tracking, capturing anything it throws.
+	 * Dependencies read before the failure are still reported, so the dependent can recover when they change.
+	 * A CircularDependencyError is captured in the same way.
+	 */
+	static tryTrack<T>(dependent: IDependent, func: () => T): TrackResult<T> {
+		const existingIndex = this.frameStack.findIndex(frame => frame.dependent === dependent);
+		if (existingIndex >= 0) {
+			const chain = this.frameStack.slice(existingIndex).map(frame => frame.dependent);
 			return {
-				dependencies: new Set(this.currentDependencies),
-				result
+				dependencies: new Set(),
+				succeeded: false,
+				error: new CircularDependencyError([...chain, dependent])
 			};
+		}
+
+		const frame: TrackingFrame = { dependent, dependencies: new Set() };
+		this.frameStack.push(frame);
+
+		try {
+			return { dependencies: frame.dependencies, succeeded: true, result: func() };
+		} catch (error) {
+			return { dependencies: frame.dependencies, succeeded: false, error };
+		} finally {
+			this.frameStack.pop();
+		}
+	}
+
+	/**
+	 * Executes the specified function without tracking anything it reads as a dependency of the current computation.
+	 */
+	static untracked<T>(func: () => T): T {
+		const savedStack = this.frameStack;
+		this.frameStack = [];
+
+		try {
+			return func();
 		} finally {
-			this.dependentStack.pop();
-			this.currentDependencies.clear();
+			this.frameStack = savedStack;
+		}
+	}
+
+	/**
+	 * Records the current version of each dependency, for a later call to hasChanged().
+	 */
+	static captureVersions(dependencies: Set<IObservable>): Map<IObservable, number> {
+		const versions = new Map<IObservable, number>();
+		dependencies.forEach(dependency => {
+			versions.set(dependency, dependency.getVersion ? dependency.getVersion() : NaN);
+		});
+		return versions;
+	}
+
+	/**
+	 * Checks whether any dependency changed since its version was captured, bringing derived dependencies
+	 * up to date in the order they were read. Dependencies that do not report a version always count as changed.
+	 */
+	static hasChanged(versions: Map<IObservable, number>): boolean {
+		for (const [dependency, version] of versions) {
+			if (!dependency.getVersion || dependency.getVersion() !== version) {
+				return true;
+			}
 		}
+		return false;
 	}
 
 	/**
 	 * Tracks that the current computation depends on the specified observable.
 	 */
 	static trackDependency(observable: IObservable): void {
-		if (this.dependentStack.length > 0 && this.currentDependent) {
-			this.currentDependencies.add(observable);
-			observable.addDependent(this.currentDependent);
+		const frame = this.currentFrame;
+		if (frame) {
+			frame.dependencies.add(observable);
+			observable.addDependent(frame.dependent);
+		}
+	}
+}
+
+//#endregion
+//#region Batching
+
+/**
+ * A propagation task waiting in the batch queue.
+ */
+interface PendingTask {
+	owner: object;
+	task: () => void;
+	height: number;
+	sequence: number;
+}
+
+/**
+ * A binary min-heap of pending tasks, ordered by height and then by the order they were queued.
+ */
+class TaskQueue {
+	private heap: PendingTask[] = [];
+
+	/**
+	 * Gets the number of queued tasks.
+	 */
+	get size(): number {
+		return this.heap.length;
+	}
+
+	/**
+	 * Adds a task in O(log n).
+	 */
+	push(entry: PendingTask): void {
+		const heap = this.heap;
+		heap.push(entry);
+
+		let index = heap.length - 1;
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!precedes(heap[index], heap[parent])) {
+				break;
+			}
+			[heap[index], heap[parent]] = [heap[parent], heap[index]];
+			index = parent;
+		}
+	}
+
+	/**
+	 * Removes and returns the first task in O(log n), or undefined if the queue is empty.
+	 */
+	pop(): PendingTask | undefined {
+		const heap = this.heap;
+		const first = heap[0];
+		const last = heap.pop();
+		if (heap.length === 0 || !last) {
+			return first;
+		}
+
+		heap[0] = last;
+		let index = 0;
+		for (;;) {
+			const left = index * 2 + 1;
+			const right = left + 1;
+			let smallest = index;
+			if (left < heap.length && precedes(heap[left], heap[smallest])) {
+				smallest = left;
+			}
+			if (right < heap.length && precedes(heap[right], heap[smallest])) {
+				smallest = right;
+			}
+			if (smallest === index) {
+				break;
+			}
+			[heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+			index = smallest;
+		}
+		return first;
+	}
+
+	/**
+	 * Removes every task.
+	 */
+	clear(): void {
+		this.heap = [];
+	}
+}
+
+/**
+ * Checks whether a task runs before another: lower heights first, then the earliest queued.
+ */
+function precedes(a: PendingTask, b: PendingTask): boolean {
+	return a.height < b.height || (a.height === b.height && a.sequence < b.sequence);
+}
+
+/**
+ * Static class for deferring change propagation until the outermost batch ends.
+ *
+ * Changes mark their downstream graph dirty immediately, while listener delivery and eager
+ * recomputation are queued here and run in height order once the graph has been fully marked.
+ * This keeps every node evaluated at most once per change and prevents observers from seeing
+ * values computed from a mix of fresh and stale inputs.
+ */
+export class Batch {
+	/**
+	 * The number of times a single node may be delivered within one flush before
+	 * its listeners are considered to be re-triggering themselves indefinitely.
+	 */
+	static maxRepeats: number = 100;
+
+	private static depth: number = 0;
+	private static pending: Map<object, PendingTask> = new Map();
+	private static queue: TaskQueue = new TaskQueue();
+	private static sequence: number = 0;
+
+	/**
+	 * Gets whether a batch is currently open.
+	 */
+	static get isActive(): boolean {
+		return this.depth > 0;
+	}
+
+	/**
+	 * Executes the specified function, deferring change propagation until the outermost batch ends.
+	 */
+	static run<T>(func: () => T): T {
+		this.depth++;
+
+		try {
+			return func();
+		} finally {
+			this.depth--;
+			if (this.depth === 0) {
+				this.flush();
+			}
+		}
+	}
+
+	/**
+	 * Queues a propagation task for the specified owner.
+	 * Only the first task queued for an owner is kept until it runs, so each owner is delivered at most once per batch.
+	 * If no batch is open, the task runs immediately.
+	 * @param owner The node the task belongs to
+	 * @param task The task to run
+	 * @param height The owner's height in the dependency graph; lower tasks run first
+	 */
+	static enqueue(owner: object, task: () => void, height: number = 0): void {
+		if (!this.pending.has(owner)) {
+			const entry = { owner, task, height, sequence: this.sequence++ };
+			this.pending.set(owner, entry);
+			this.queue.push(entry);
+		}
+
+		if (this.depth === 0) {
+			this.flush();
+		}
+	}
+
+	/**
+	 * Runs queued tasks, lowest height first, until none remain.
+	 * Tasks queued while flushing are picked up in height order as well.
+	 * A task that throws does not stop the others; the first error is rethrown once the queue is empty.
+	 * @throws CircularDependencyError If a node is delivered more than maxRepeats times
+	 */
+	private static flush(): void {
+		this.depth++;
+
+		// The order tasks ran in and how often each owner has run, for spotting update loops
+		const history: object[] = [];
+		const runCounts: Map<object, number> = new Map();
+		let failure: { error: unknown } | null = null;
+
+		try {
+			let next = this.takeNext();
+			while (next) {
+				const { owner, task } = next;
+				const runCount = (runCounts.get(owner) ?? 0) + 1;
+
+				if (runCount > this.maxRepeats) {
+					const previousIndex = history.lastIndexOf(owner);
+					throw new CircularDependencyError([...history.slice(previousIndex), owner]);
+				}
+
+				runCounts.set(owner, runCount);
+				history.push(owner);
+
+				try {
+					task();
+				} catch (error) {
+					failure = failure ?? { error };
+				}
+
+				next = this.takeNext();
+			}
+		} finally {
+			// Drop anything left behind by a failing task rather than leaking it into an unrelated batch
+			this.pending.clear();
+			this.queue.clear();
+			this.sequence = 0;
+			this.depth--;
+
+			if (this.depth === 0) {
+				Instrumentation.settle();
+			}
+		}
+
+		if (failure) {
+			throw failure.error;
+		}
+	}
+
+	/**
+	 * Removes and returns the lowest queued task, preferring the earliest queued on ties.
+	 */
+	private static takeNext(): { owner: object, task: () => void } | undefined {
+		const next = this.queue.pop();
+		if (!next) {
+			return undefined;
+		}
+
+		this.pending.delete(next.owner);
+		return { owner: next.owner, task: next.task };
+	}
+}
+
+/**
+ * Groups several changes so that dependents and listeners are notified once, after the outermost batch ends.
+ * @param func The function making the changes
+ * @returns The value returned by the function
+ *
+ * @example
+ * ```typescript
+ * batch(() => {
+ *   firstName.set('Alex');
+ *   lastName.set('Smith');
+ * }); // fullName observers run once, with 'Alex Smith'
+ * ```
+ */
+export function batch<T>(func: () => T): T {
+	return Batch.run(func);
+}
+
+//#endregion
+//#region Instrumentation
+
+/**
+ * How an invalidated node turned out once it was brought up to date.
+ * - `'changed'`: it recomputed to a different value
+ * - `'equal'`: it recomputed to a value equal to the previous one
+ * - `'skipped'`: none of its dependencies actually changed, so it did not recompute
+ * - `'ran'`: an effect or async computed ran again
+ * - `'failed'`: the computation threw
+ */
+export type EvaluationOutcome = 'changed' | 'equal' | 'skipped' | 'ran' | 'failed';
+
+/**
+ * Receives propagation events from every node, for debugging and profiling tools.
+ * Every member is optional; an instrument handles the events it needs.
+ */
+export interface IInstrument {
+	/**
+	 * Called when a source node changes, before anything is propagated.
+	 * @param node The node that changed
+	 * @param kind How it changed, such as `'set'` or a list mutation kind
+	 */
+	onOrigin?(node: object, kind: string): void;
+
+	/**
+	 * Called when a node invalidates one of its dependents.
+	 */
+	onInvalidate?(source: object, dependent: object): void;
+
+	/**
+	 * Called when a computed, effect or async computed has been evaluated.
+	 * @param duration The time spent evaluating, in milliseconds
+	 */
+	onEvaluate?(node: object, outcome: EvaluationOutcome, duration: number): void;
+
+	/**
+	 * Called after an observer callback has run for a change to the source.
+	 * @param duration The time spent in the callback, in milliseconds
+	 */
+	onCallback?(node: object, source: object, duration: number): void;
+
+	/**
+	 * Called when the outermost batch has finished propagating.
+	 */
+	onSettle?(): void;
+}
+
+/**
+ * Gets the node reported in place of the specified one, following its owner if it is part of another node.
+ */
+function ownerOf(node: object): object {
+	return (node as IInspectable).owner ?? node;
+}
+
+/**
+ * Static class that forwards propagation events from the nodes to the installed instruments.
+ * Nodes report events unconditionally; with no instruments installed every call returns immediately.
+ */
+export class Instrumentation {
+	private static instruments: Set<IInstrument> = new Set();
+
+	/**
+	 * Gets whether any instrument is installed.
+	 */
+	static get isActive(): boolean {
+		return this.instruments.size > 0;
+	}
+
+	/**
+	 * Installs an instrument.
+	 * @returns A function that removes the instrument again
+	 */
+	static add(instrument: IInstrument): () => void {
+		this.instruments.add(instrument);
+		return () => {
+			this.instruments.delete(instrument);
+		};
+	}
+
+	/**
+	 * Gets a timestamp in milliseconds for measuring durations, or 0 when no instrument is installed.
+	 */
+	static now(): number {
+		if (this.instruments.size === 0) {
+			return 0;
+		}
+		return typeof performance !== 'undefined' ? performance.now() : Date.now();
+	}
+
+	/**
+	 * Reports that a source node changed. Changes to nodes that are part of an owner are left for the owner to report.
+	 */
+	static origin(node: object, kind: string): void {
+		if (this.instruments.size > 0 && !(node as IInspectable).owner) {
+			this.instruments.forEach(instrument => instrument.onOrigin?.(node, kind));
+		}
+	}
+
+	/**
+	 * Reports that a node invalidated a dependent. Nodes that belong to an owner are reported as the owner,
+	 * and invalidations between the parts of one owner are not reported at all.
+	 */
+	static invalidate(source: object, dependent: object): void {
+		if (this.instruments.size > 0) {
+			const from = ownerOf(source);
+			const to = ownerOf(dependent);
+			if (from !== to) {
+				this.instruments.forEach(instrument => instrument.onInvalidate?.(from, to));
+			}
 		}
 	}
+
+	/**
+	 * Reports that a node was evaluated. Evaluations of nodes that are part of an owner are not reported,
+	 * as they are the owner's own work: the owner reports its evaluations itself.
+	 * @param startTime The result of now() taken before the evaluation started
+	 */
+	static evaluate(node: object, outcome: EvaluationOutcome, startTime: number): void {
+		if (this.instruments.size > 0 && !(node as IInspectable).owner) {
+			const duration = this.now() - startTime;
+			this.instruments.forEach(instrument => instrument.onEvaluate?.(node, outcome, duration));
+		}
+	}
+
+	/**
+	 * Reports that an observer callback ran. A source that is part of an owner is reported as the owner.
+	 * @param startTime The result of now() taken before the callback started
+	 */
+	static callback(node: object, source: object, startTime: number): void {
+		if (this.instruments.size > 0) {
+			const duration = this.now() - startTime;
+			const from = ownerOf(source);
+			this.instruments.forEach(instrument => instrument.onCallback?.(node, from, duration));
+		}
+	}
+
+	/**
+	 * Reports that the outermost batch has finished propagating.
+	 */
+	static settle(): void {
+		this.instruments.forEach(instrument => instrument.onSettle?.());
+	}
 }
+
+//#endregion
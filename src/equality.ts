@@ -0,0 +1,160 @@
+/**
+ * A function that decides whether two values should be treated as equal.
+ */
+export type EqualityFunction<T> = (a: T, b: T) => boolean;
+
+/**
+ * How to compare values: a built-in comparator name or a custom function.
+ * - `'strict'` compares with `===` (the default)
+ * - `'shallow'` compares the top level of arrays, plain objects, Maps, Sets and Dates with `===`
+ * - `'deep'` compares arrays, plain objects, Maps, Sets and Dates structurally, at any depth
+ */
+export type EqualityOption<T> = 'strict' | 'shallow' | 'deep' | EqualityFunction<T>;
+
+/**
+ * Compares two values with `===`.
+ */
+export function strictEqual(a: unknown, b: unknown): boolean {
+	return a === b;
+}
+
+/**
+ * Compares two values one level deep.
+ * Arrays, plain objects, Maps, Sets and Dates are compared by contents, with each entry compared using `===`.
+ * Any other values are compared with `===`.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+	return structuralEqual(a, b, strictEqual);
+}
+
+/**
+ * Compares two values structurally at any depth.
+ * Arrays, plain objects, Maps, Sets and Dates are compared by contents; Map keys are matched by identity.
+ * Any other values are compared with `===`. Cyclic structures are supported.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+	// Pairs already being compared further up, treated as equal to terminate cycles
+	const comparing: Map<object, Set<object>> = new Map();
+
+	const compare = (x: unknown, y: unknown): boolean => {
+		if (x === y) {
+			return true;
+		}
+		if (!isObject(x) || !isObject(y)) {
+			return false;
+		}
+
+		let partners = comparing.get(x);
+		if (partners && partners.has(y)) {
+			return true;
+		}
+		if (!partners) {
+			partners = new Set();
+			comparing.set(x, partners);
+		}
+
+		partners.add(y);
+		try {
+			return structuralEqual(x, y, compare);
+		} finally {
+			partners.delete(y);
+		}
+	};
+
+	return compare(a, b);
+}
+
+/**
+ * Gets the equality function for the given option, defaulting to strict equality.
+ */
+export function resolveEquality<T>(option?: EqualityOption<T>): EqualityFunction<T> {
+	if (typeof option === 'function') {
+		return option;
+	}
+
+	switch (option) {
+		case 'shallow':
+			return shallowEqual;
+		case 'deep':
+			return deepEqual;
+		default:
+			return strictEqual;
+	}
+}
+
+function isObject(value: unknown): value is object {
+	return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: object): boolean {
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Compares the contents of two values, using the given function for nested entries.
+ */
+function structuralEqual(a: unknown, b: unknown, compare: (x: unknown, y: unknown) => boolean): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (!isObject(a) || !isObject(b)) {
+		return false;
+	}
+
+	if (a instanceof Date || b instanceof Date) {
+		return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+	}
+
+	if (Array.isArray(a) || Array.isArray(b)) {
+		if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+			return false;
+		}
+		return a.every((item, index) => compare(item, b[index]));
+	}
+
+	if (a instanceof Map || b instanceof Map) {
+		if (!(a instanceof Map) || !(b instanceof Map) || a.size !== b.size) {
+			return false;
+		}
+		for (const [key, value] of a) {
+			if (!b.has(key) || !compare(value, b.get(key))) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	if (a instanceof Set || b instanceof Set) {
+		if (!(a instanceof Set) || !(b instanceof Set) || a.size !== b.size) {
+			return false;
+		}
+		// Members present in both pair up with themselves; the rest of a must each match a distinct rest of b
+		const unmatched = Array.from(b).filter(other => !a.has(other));
+		for (const value of a) {
+			if (b.has(value)) {
+				continue;
+			}
+			const index = unmatched.findIndex(other => compare(value, other));
+			if (index < 0) {
+				return false;
+			}
+			unmatched.splice(index, 1);
+		}
+		return true;
+	}
+
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const aKeys = Object.keys(a);
+		const bKeys = Object.keys(b);
+		if (aKeys.length !== bKeys.length) {
+			return false;
+		}
+		return aKeys.every(key =>
+			Object.prototype.hasOwnProperty.call(b, key) &&
+			compare((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+		);
+	}
+
+	return false;
+}
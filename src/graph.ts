@@ -0,0 +1,217 @@
+import { IInspectable } from './core';
+
+/**
+ * A node in an exported dependency graph.
+ */
+export interface GraphNode {
+	/**
+	 * An identifier that is unique within the export.
+	 */
+	id: string;
+
+	/**
+	 * The kind of node, such as `'State'` or `'Computed'`.
+	 */
+	type: string;
+
+	/**
+	 * The node's debug name, if it has one.
+	 */
+	name?: string;
+
+	/**
+	 * The number of callbacks registered for changes to the node.
+	 */
+	listenerCount: number;
+}
+
+/**
+ * An edge in an exported dependency graph, pointing from a node to a node that reads it.
+ */
+export interface GraphEdge {
+	from: string;
+	to: string;
+}
+
+/**
+ * A plain, serializable copy of part of the dependency graph.
+ */
+export interface GraphSnapshot {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+}
+
+/**
+ * Nodes that follow a source through onChange rather than by reading it, such as watch observers and hydrate bindings.
+ * The sources cannot tell these listeners apart, so the subscribers are recorded here.
+ */
+const subscribers: WeakMap<object, Set<object>> = new WeakMap();
+
+/**
+ * Records that the subscriber follows the source through a change listener, so introspection reports it as a dependent.
+ */
+export function addSubscriber(source: object, subscriber: object): void {
+	let set = subscribers.get(source);
+	if (!set) {
+		set = new Set();
+		subscribers.set(source, set);
+	}
+	set.add(subscriber);
+}
+
+/**
+ * Removes a subscriber recorded with addSubscriber().
+ */
+export function removeSubscriber(source: object, subscriber: object): void {
+	const set = subscribers.get(source);
+	if (set) {
+		set.delete(subscriber);
+		if (set.size === 0) {
+			subscribers.delete(source);
+		}
+	}
+}
+
+/**
+ * Gets the node reported in place of the specified one, following its owner if it tracks on behalf of another node.
+ */
+function resolveNode(node: object): object {
+	return (node as IInspectable).owner ?? node;
+}
+
+/**
+ * Gets the nodes the specified node currently reads.
+ * @param node A State, Computed, ReactiveList, AsyncComputed, Observer or any other inspectable node
+ */
+export function getDependencies(node: object): object[] {
+	const inspectable = node as IInspectable;
+	return inspectable.getDependencies ? inspectable.getDependencies().map(resolveNode) : [];
+}
+
+/**
+ * Gets the nodes that currently read the specified node, including observers and hydrate bindings following it.
+ * @param node A State, Computed, ReactiveList, AsyncComputed or any other inspectable node
+ */
+export function getDependents(node: object): object[] {
+	const inspectable = node as IInspectable;
+	const dependents = new Set<object>(inspectable.getDependents ? inspectable.getDependents().map(resolveNode) : []);
+	subscribers.get(node)?.forEach(subscriber => dependents.add(subscriber));
+	return Array.from(dependents);
+}
+
+/**
+ * Gets the number of callbacks registered for changes to the specified node.
+ */
+export function getListenerCount(node: object): number {
+	const inspectable = node as IInspectable;
+	return inspectable.getListenerCount ? inspectable.getListenerCount() : 0;
+}
+
+/**
+ * Static class for exporting the live dependency graph, for tests and bug reports.
+ * Exports start from the given roots and follow both dependencies and dependents,
+ * so any node of a connected graph is enough to export all of it.
+ *
+ * @example
+ * ```typescript
+ * const count = new State(1, { name: 'count' });
+ * const doubled = new Computed(() => count.use() * 2, { name: 'doubled' });
+ *
+ * console.log(GraphExporter.toDot([count]));
+ * // digraph reactive {
+ * //   n0 [label="count\nState"];
+ * //   n1 [label="doubled\nComputed"];
+ * //   n0 -> n1;
+ * // }
+ * ```
+ */
+export class GraphExporter {
+	/**
+	 * Walks the graph from the roots and returns a serializable copy of it.
+	 * Nodes are numbered in the order they are reached.
+	 */
+	static snapshot(roots: object[]): GraphSnapshot {
+		const ids: Map<object, string> = new Map();
+		const nodes: GraphNode[] = [];
+		const edges: GraphEdge[] = [];
+		const seenEdges: Set<string> = new Set();
+		const queue: object[] = [];
+
+		const visit = (node: object): string => {
+			let id = ids.get(node);
+			if (id === undefined) {
+				id = `n${ids.size}`;
+				ids.set(node, id);
+				queue.push(node);
+
+				const name = (node as IInspectable).name;
+				nodes.push({
+					id,
+					type: node.constructor.name,
+					...(name ? { name } : {}),
+					listenerCount: getListenerCount(node)
+				});
+			}
+			return id;
+		};
+
+		const link = (from: string, to: string): void => {
+			const key = `${from}->${to}`;
+			if (!seenEdges.has(key)) {
+				seenEdges.add(key);
+				edges.push({ from, to });
+			}
+		};
+
+		roots.map(resolveNode).forEach(visit);
+
+		while (queue.length > 0) {
+			const node = queue.shift() as object;
+			const id = ids.get(node) as string;
+
+			getDependencies(node).forEach(dependency => link(visit(dependency), id));
+			getDependents(node).forEach(dependent => link(id, visit(dependent)));
+		}
+
+		return { nodes, edges };
+	}
+
+	/**
+	 * Walks the graph from the roots and returns it as indented JSON.
+	 */
+	static toJSON(roots: object[]): string {
+		return JSON.stringify(this.snapshot(roots), null, 2);
+	}
+
+	/**
+	 * Walks the graph from the roots and returns it in Graphviz DOT format.
+	 * Edges point from each node to the nodes that read it.
+	 */
+	static toDot(roots: object[]): string {
+		const { nodes, edges } = this.snapshot(roots);
+		const lines = ['digraph reactive {'];
+
+		nodes.forEach(node => {
+			const label = [
+				...(node.name ? [node.name] : []),
+				node.type,
+				...(node.listenerCount > 0 ? [`listeners: ${node.listenerCount}`] : [])
+			].map(escapeDot).join('\\n');
+			lines.push(`  ${node.id} [label="${label}"];`);
+		});
+
+		edges.forEach(edge => {
+			lines.push(`  ${edge.from} -> ${edge.to};`);
+		});
+
+		lines.push('}');
+		return lines.join('\n');
+	}
+}
+
+/**
+ * Escapes text for use inside a quoted DOT string.
+ */
+function escapeDot(text: string): string {
+	return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,320 @@
+import { IDisposable, Batch } from './core';
+import { State } from './state';
+import { Computed } from './computed';
+import { ReactiveList, ListMutation } from './reactive-list';
+import { Scope } from './scope';
+
+/**
+ * Options for creating a History.
+ */
+export interface HistoryOptions {
+	/**
+	 * The scope that owns the history and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * The most undo steps to keep; the oldest are dropped first. Defaults to 100.
+	 */
+	maxDepth?: number;
+}
+
+/**
+ * A node whose changes a History can record.
+ */
+export type HistoryTarget = State<any> | ReactiveList<any>;
+
+/**
+ * One recorded change: a state's value before and after, or the splices made to a list.
+ */
+type HistoryEntry =
+	| { kind: 'state', state: State<any>, previousValue: unknown, value: unknown }
+	| { kind: 'list', list: ReactiveList<any>, mutations: ListMutation<any>[] };
+
+/**
+ * Records changes to a set of states and lists so they can be undone and redone.
+ * State changes are stored as their previous and new values; list changes are stored as the splices
+ * that were made, and undone by applying the inverse splices rather than restoring a full copy.
+ *
+ * Changes are recorded as they are made, whatever the scheduler: every change made in one batch becomes a single
+ * undo step, and so does everything in a `transaction()`. A state changed back to where it started within a step
+ * is left out of it. Changes that bypass the interceptors, such as those reported through `onValueChanged()` or
+ * `onItemsChanged()` without a mutation, are not recorded.
+ *
+ * @example
+ * ```typescript
+ * const title = new State('Untitled');
+ * const shapes = new ReactiveList<Shape>();
+ * const history = new History([title, shapes]);
+ *
+ * history.transaction(() => {
+ *   title.set('Drawing');
+ *   shapes.add(circle);
+ * });
+ *
+ * history.undo(); // title is 'Untitled' and shapes is empty again
+ * history.redo();
+ * ```
+ */
+export class History implements IDisposable {
+	private undoStack: HistoryEntry[][] = [];
+	private redoStack: HistoryEntry[][] = [];
+	private openStep: HistoryEntry[] | null = null;
+	private transactionDepth: number = 0;
+	private isApplying: boolean = false;
+	private unsubscribers: Map<HistoryTarget, () => void> = new Map();
+	private undoDepth: State<number> = new State(0);
+	private redoDepth: State<number> = new State(0);
+	private maxDepth: number;
+	private scope: Scope | null;
+
+	/**
+	 * Whether there is a step to undo, as a reactive value.
+	 */
+	readonly canUndo: Computed<boolean> = new Computed(() => this.undoDepth.use() > 0);
+
+	/**
+	 * Whether there is a step to redo, as a reactive value.
+	 */
+	readonly canRedo: Computed<boolean> = new Computed(() => this.redoDepth.use() > 0);
+
+	/**
+	 * Creates a new history recording changes to the specified states and lists.
+	 */
+	constructor(targets: HistoryTarget[] = [], options: HistoryOptions = {}) {
+		this.maxDepth = options.maxDepth ?? 100;
+		targets.forEach(target => this.track(target));
+
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+	}
+
+	/**
+	 * Starts recording changes to another state or list.
+	 * @returns A function that stops recording changes to it
+	 */
+	track(target: HistoryTarget): () => void {
+		if (!this.unsubscribers.has(target)) {
+			const unsubscribe = target instanceof ReactiveList
+				? this.trackList(target)
+				: this.trackState(target);
+			this.unsubscribers.set(target, unsubscribe);
+		}
+
+		return () => this.untrack(target);
+	}
+
+	/**
+	 * Stops recording changes to a state or list. Steps already recorded for it are kept.
+	 */
+	untrack(target: HistoryTarget): void {
+		const unsubscribe = this.unsubscribers.get(target);
+		if (unsubscribe) {
+			unsubscribe();
+			this.unsubscribers.delete(target);
+		}
+	}
+
+	/**
+	 * Runs the specified function, recording every change it makes as a single undo step.
+	 * Changes are batched, so dependents and listeners are notified once when the transaction ends.
+	 */
+	transaction<T>(func: () => T): T {
+		this.transactionDepth++;
+
+		try {
+			return Batch.run(func);
+		} finally {
+			this.transactionDepth--;
+			if (this.transactionDepth === 0) {
+				this.closeStep();
+			}
+		}
+	}
+
+	/**
+	 * Reverts the most recent step.
+	 * @returns Whether there was a step to undo
+	 */
+	undo(): boolean {
+		this.closeStep();
+
+		const step = this.undoStack.pop();
+		if (!step) {
+			return false;
+		}
+
+		this.apply(() => [...step].reverse().forEach(undoEntry));
+		this.redoStack.push(step);
+		this.updateDepths();
+		return true;
+	}
+
+	/**
+	 * Reapplies the most recently undone step.
+	 * @returns Whether there was a step to redo
+	 */
+	redo(): boolean {
+		this.closeStep();
+
+		const step = this.redoStack.pop();
+		if (!step) {
+			return false;
+		}
+
+		this.apply(() => step.forEach(redoEntry));
+		this.undoStack.push(step);
+		this.updateDepths();
+		return true;
+	}
+
+	/**
+	 * Forgets every recorded step.
+	 */
+	clear(): void {
+		this.openStep = null;
+		this.undoStack = [];
+		this.redoStack = [];
+		this.updateDepths();
+	}
+
+	/**
+	 * Stops recording, forgets every step and leaves the scope.
+	 */
+	dispose(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers.clear();
+		this.clear();
+
+		this.canUndo.dispose();
+		this.canRedo.dispose();
+		this.undoDepth.dispose();
+		this.redoDepth.dispose();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	private trackState<T>(state: State<T>): () => void {
+		// Observes the value stored once every other interceptor has had its say
+		return state.intercept((value, next) => {
+			const previousValue = state.peek();
+			next(value);
+
+			const storedValue = state.peek();
+			if (!Object.is(storedValue, previousValue) && !this.isApplying) {
+				// A state changed several times in one step only needs its first and last values
+				const existing = this.openStep?.find(entry => entry.kind === 'state' && entry.state === state);
+				if (existing?.kind === 'state') {
+					existing.value = storedValue;
+				} else {
+					this.record({ kind: 'state', state, previousValue, value: storedValue });
+				}
+			}
+		});
+	}
+
+	private trackList<T>(list: ReactiveList<T>): () => void {
+		return list.onMutation(mutation => {
+			if (!this.isApplying) {
+				this.record({ kind: 'list', list, mutations: [mutation] });
+			}
+		});
+	}
+
+	/**
+	 * Adds a change to the open step, opening one that closes when the current batch ends.
+	 */
+	private record(entry: HistoryEntry): void {
+		if (this.openStep) {
+			this.openStep.push(entry);
+			return;
+		}
+
+		this.openStep = [entry];
+		if (this.transactionDepth === 0) {
+			// Queued last, after every other task of the batch, which may make further changes
+			Batch.enqueue(this, () => this.closeStep(), Infinity);
+		}
+	}
+
+	/**
+	 * Moves the open step onto the undo stack, dropping the redo stack and the oldest steps beyond the maximum depth.
+	 */
+	private closeStep(): void {
+		const step = this.openStep?.filter(entry => entry.kind !== 'state' || !Object.is(entry.value, entry.previousValue));
+		this.openStep = null;
+
+		if (step && step.length > 0) {
+			this.undoStack.push(step);
+			if (this.undoStack.length > this.maxDepth) {
+				this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+			}
+			this.redoStack = [];
+			this.updateDepths();
+		}
+	}
+
+	/**
+	 * Runs the specified function as one batch without recording the changes it makes.
+	 */
+	private apply(func: () => void): void {
+		this.isApplying = true;
+		try {
+			Batch.run(func);
+		} finally {
+			this.isApplying = false;
+		}
+	}
+
+	private updateDepths(): void {
+		Batch.run(() => {
+			this.undoDepth.set(this.undoStack.length);
+			this.redoDepth.set(this.redoStack.length);
+		});
+	}
+}
+
+/**
+ * Reverts a recorded change.
+ */
+function undoEntry(entry: HistoryEntry): void {
+	if (entry.kind === 'state') {
+		entry.state.set(entry.previousValue);
+	} else {
+		[...entry.mutations].reverse().forEach(mutation => splice(entry.list, mutation.index, mutation.added.length, mutation.removed));
+	}
+}
+
+/**
+ * Reapplies a recorded change.
+ */
+function redoEntry(entry: HistoryEntry): void {
+	if (entry.kind === 'state') {
+		entry.state.set(entry.value);
+	} else {
+		entry.mutations.forEach(mutation => splice(entry.list, mutation.index, mutation.removed.length, mutation.added));
+	}
+}
+
+/**
+ * Removes `deleteCount` items at `index` of a list and inserts `items` in their place,
+ * using the matching single-item operation where there is one.
+ */
+function splice<T>(list: ReactiveList<T>, index: number, deleteCount: number, items: T[]): void {
+	if (deleteCount === 0 && items.length === 1) {
+		list.insert(index, items[0]);
+	} else if (deleteCount === 1 && items.length === 0) {
+		list.removeAt(index);
+	} else if (deleteCount === 1 && items.length === 1) {
+		list.update(index, items[0]);
+	} else {
+		const next = list.peek();
+		next.splice(index, deleteCount, ...items);
+		list.replace(next);
+	}
+}
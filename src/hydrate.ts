@@ -1,18 +1,60 @@
-import { IReactive } from './core';
+import { IInspectable, IObservable, IReactive } from './core';
 import { State } from './state';
 import { Computed } from './computed';
+import { Scope } from './scope';
+import { addSubscriber, removeSubscriber } from './graph';
 
 type BindingValue<T> = IReactive<T> | T;
 type BindingTable<T> = {
 	[K in keyof T]?: BindingValue<T[K]>;
 };
 
+/**
+ * Options for Hydrate.
+ */
+export interface HydrateOptions {
+	/**
+	 * The scope that owns the bindings and removes them along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name for the bindings, shown when inspecting the graph as `name.property`.
+	 */
+	name?: string;
+}
+
+/**
+ * A single property kept in sync with a reactive value, as seen when inspecting the graph.
+ */
+class HydrateBinding implements IInspectable {
+	private source: IObservable;
+
+	/**
+	 * The bound property, prefixed with the name given in the options.
+	 */
+	readonly name: string;
+
+	constructor(name: string, source: IObservable) {
+		this.name = name;
+		this.source = source;
+	}
+
+	/**
+	 * Gets the reactive value the property is bound to.
+	 */
+	getDependencies(): IObservable[] {
+		return [this.source];
+	}
+}
+
 /**
  * Binds properties of an object to reactive values (State or Computed) or constants.
  * Properties bound to reactive values will update automatically when the reactive value changes.
  * 
  * @param obj The object to hydrate with reactive bindings
  * @param bindings An object mapping property names to their binding sources
+ * @param options Optional settings, such as the scope that owns the bindings
  * @returns A dispose function that can be called to remove all bindings
  * 
  * @example
@@ -33,7 +75,7 @@ type BindingTable<T> = {
  * dispose();
  * ```
  */
-export function Hydrate<T extends object>(obj: T, bindings: BindingTable<T>): () => void {
+export function Hydrate<T extends object>(obj: T, bindings: BindingTable<T>, options: HydrateOptions = {}): () => void {
 	const unsubscribers: Array<() => void> = [];
 
 	// Process each binding
@@ -53,7 +95,13 @@ export function Hydrate<T extends object>(obj: T, bindings: BindingTable<T>): ()
 					(obj as any)[key] = newValue;
 				});
 
-				unsubscribers.push(unsubscribe);
+				const node = new HydrateBinding(options.name ? `${options.name}.${key}` : key, reactive);
+				addSubscriber(reactive, node);
+
+				unsubscribers.push(() => {
+					unsubscribe();
+					removeSubscriber(reactive, node);
+				});
 			}
 			// If it's a literal value, just set it directly
 			else {
@@ -62,9 +110,22 @@ export function Hydrate<T extends object>(obj: T, bindings: BindingTable<T>): ()
 		}
 	}
 
-	// Return a dispose function
-	return () => {
-		// Call all unsubscribers
-		unsubscribers.forEach(unsubscribe => unsubscribe());
+	const hydration = {
+		dispose: () => {
+			// Call all unsubscribers
+			unsubscribers.forEach(unsubscribe => unsubscribe());
+			unsubscribers.length = 0;
+
+			if (options.scope) {
+				options.scope.remove(hydration);
+			}
+		}
 	};
+
+	if (options.scope) {
+		options.scope.add(hydration);
+	}
+
+	// Return a dispose function
+	return hydration.dispose;
 }
@@ -1,13 +1,150 @@
 import { Computed } from './computed';
 import { Observer } from './observer';
 import { State } from './state';
+import { ValidatedState } from './validated-state';
 import { ReactiveList } from './reactive-list';
+import { ReactiveMap } from './reactive-map';
+import { ReactiveSet } from './reactive-set';
+import { ReactiveObject, reactive, shallowReactive, toRaw, isReactive } from './reactive-object';
 import { Hydrate } from './hydrate';
+import { AsyncComputed } from './async-computed';
+import { Scope } from './scope';
+import { History } from './history';
+import { Store } from './store';
+import { persist, Persistence } from './persist';
+import { StorageAdapter } from './storage';
+import { Codec } from './codec';
+import { Spring } from './spring';
+import { Clock } from './clock';
+import { batch, CircularDependencyError } from './core';
+import { shallowEqual, deepEqual } from './equality';
+import { Scheduler } from './scheduler';
+import { Tracer } from './tracer';
+import { Profiler } from './profiler';
+import { GraphExporter, getDependencies, getDependents, getListenerCount } from './graph';
+
+import type { IReactive, IObservable, IDisposable, IInspectable, ChangeInfo, ChangeListener, EvaluationOutcome } from './core';
+import type { StateOptions, StateInterceptor } from './state';
+import type { ComputedOptions, WritableComputedAccessors } from './computed';
+import type { ValidatedStateOptions, Validator, ValidationResult, ValidationPolicy } from './validated-state';
+import type { ReactiveListOptions, ListMutation, ListMutationKind, ListChangeInfo, ListInterceptor } from './reactive-list';
+import type { ReactiveMapOptions, MapChange, MapChangeInfo } from './reactive-map';
+import type { ReactiveSetOptions, SetChange, SetChangeInfo } from './reactive-set';
+import type { ReactiveObjectOptions } from './reactive-object';
+import type { AsyncComputedOptions, AsyncStatus } from './async-computed';
+import type { ObserverOptions, EffectFunction, EffectCleanup } from './observer';
+import type { HydrateOptions } from './hydrate';
+import type { HistoryOptions, HistoryTarget } from './history';
+import type { StoreOptions, StoreSnapshot, SnapshotValues, SnapshotMigration } from './store';
+import type { PersistOptions, PersistStatus } from './persist';
+import type { IStorageAdapter, StorageLike } from './storage';
+import type { ICodec, ITypeCodec } from './codec';
+import type { SpringOptions, SpringValue } from './spring';
+import type { IClock, IManualClock } from './clock';
+import type { IScheduler } from './scheduler';
+import type { Interceptor } from './interceptor';
+import type { EqualityOption, EqualityFunction } from './equality';
+import type { TraceEntry, TraceOutcome, PropagationTrace } from './tracer';
+import type { ProfileEntry, ProfileReport } from './profiler';
+import type { GraphNode, GraphEdge, GraphSnapshot } from './graph';
 
 export {
 	State,
+	ValidatedState,
 	ReactiveList,
+	ReactiveMap,
+	ReactiveSet,
+	ReactiveObject,
 	Computed,
+	AsyncComputed,
 	Observer,
-	Hydrate
+	Hydrate,
+	Scope,
+	History,
+	Store,
+	Persistence,
+	StorageAdapter,
+	Codec,
+	Spring,
+	Clock,
+	Scheduler,
+	GraphExporter,
+	Tracer,
+	Profiler,
+	getDependencies,
+	getDependents,
+	getListenerCount,
+	reactive,
+	shallowReactive,
+	toRaw,
+	isReactive,
+	persist,
+	batch,
+	CircularDependencyError,
+	shallowEqual,
+	deepEqual
+}
+
+export type {
+	IReactive,
+	IObservable,
+	IDisposable,
+	IInspectable,
+	ChangeInfo,
+	ChangeListener,
+	EvaluationOutcome,
+	StateOptions,
+	StateInterceptor,
+	ComputedOptions,
+	WritableComputedAccessors,
+	ValidatedStateOptions,
+	Validator,
+	ValidationResult,
+	ValidationPolicy,
+	ReactiveListOptions,
+	ListMutation,
+	ListMutationKind,
+	ListChangeInfo,
+	ListInterceptor,
+	ReactiveMapOptions,
+	MapChange,
+	MapChangeInfo,
+	ReactiveSetOptions,
+	SetChange,
+	SetChangeInfo,
+	ReactiveObjectOptions,
+	AsyncComputedOptions,
+	AsyncStatus,
+	ObserverOptions,
+	EffectFunction,
+	EffectCleanup,
+	HydrateOptions,
+	HistoryOptions,
+	HistoryTarget,
+	StoreOptions,
+	StoreSnapshot,
+	SnapshotValues,
+	SnapshotMigration,
+	PersistOptions,
+	PersistStatus,
+	IStorageAdapter,
+	StorageLike,
+	ICodec,
+	ITypeCodec,
+	SpringOptions,
+	SpringValue,
+	IClock,
+	IManualClock,
+	IScheduler,
+	Interceptor,
+	EqualityOption,
+	EqualityFunction,
+	TraceEntry,
+	TraceOutcome,
+	PropagationTrace,
+	ProfileEntry,
+	ProfileReport,
+	GraphNode,
+	GraphEdge,
+	GraphSnapshot
 }
@@ -0,0 +1,87 @@
+/**
+ * Middleware that sees a write before it is committed.
+ * Call `next` to let the write through, with the same value or a transformed one; return without calling it to veto
+ * the write; throw to reject it with an error. Code before and after `next` can observe the write.
+ * @param write The value about to be written
+ * @param next Passes the write on to the next interceptor, or commits it after the last one
+ * @param source The node being written to
+ */
+export type Interceptor<W, S> = (write: W, next: (write: W) => void, source: S) => void;
+
+/**
+ * An ordered list of interceptors that every write to a node passes through.
+ */
+export class InterceptorChain<W, S> {
+	private interceptors: Interceptor<W, S>[];
+
+	/**
+	 * @param interceptors The interceptors to start with, run in the order given
+	 */
+	constructor(interceptors: Interceptor<W, S>[] = []) {
+		this.interceptors = [...interceptors];
+	}
+
+	/**
+	 * Gets the number of interceptors in the chain.
+	 */
+	get size(): number {
+		return this.interceptors.length;
+	}
+
+	/**
+	 * Adds an interceptor after the existing ones.
+	 * @returns A function that removes the interceptor
+	 */
+	add(interceptor: Interceptor<W, S>): () => void {
+		// Copy on change, so that a write in progress keeps the chain it started with
+		this.interceptors = [...this.interceptors, interceptor];
+		return () => {
+			this.interceptors = this.interceptors.filter(existing => existing !== interceptor);
+		};
+	}
+
+	/**
+	 * Passes a write through every interceptor in turn, then commits it.
+	 * @param write The value about to be written
+	 * @param source The node being written to
+	 * @param commit Applies the write as it comes out of the last interceptor
+	 * @returns Whether the write was committed rather than vetoed
+	 */
+	run(write: W, source: S, commit: (write: W) => void): boolean {
+		const interceptors = this.interceptors;
+		if (interceptors.length === 0) {
+			commit(write);
+			return true;
+		}
+
+		let committed = false;
+		const step = (index: number, current: W): void => {
+			let called = false;
+			const next = (passed: W) => {
+				if (called) {
+					throw new Error("An interceptor called next() more than once for the same write.");
+				}
+				called = true;
+
+				if (index + 1 < interceptors.length) {
+					step(index + 1, passed);
+				} else {
+					committed = true;
+					commit(passed);
+				}
+			};
+
+			interceptors[index](current, next, source);
+		};
+
+		step(0, write);
+		return committed;
+	}
+
+	/**
+	 * Removes every interceptor.
+	 */
+	clear(): void {
+		this.interceptors = [];
+	}
+}
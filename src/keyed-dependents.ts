@@ -0,0 +1,160 @@
+import { IDependent, IInspectable, IObservable, DependencyTracker, Instrumentation, describeNode } from './core';
+
+/**
+ * A node in the dependency graph standing for one part of a collection, such as a single key or its size,
+ * so that readers of that part are only invalidated when it changes.
+ * Introspection reports the collection that owns it in its place.
+ */
+export class TrackedPart implements IObservable, IInspectable {
+	private dependents: Set<IDependent> = new Set<IDependent>();
+	private version: number = 0;
+	private label: string;
+	private onUnused: (() => void) | null;
+
+	/**
+	 * The collection this part belongs to.
+	 */
+	readonly owner: object;
+
+	/**
+	 * @param owner The collection this part belongs to
+	 * @param label Describes the part within the collection, such as the key
+	 * @param onUnused Called when the last dependent is removed
+	 */
+	constructor(owner: object, label: string, onUnused?: () => void) {
+		this.owner = owner;
+		this.label = label;
+		this.onUnused = onUnused ?? null;
+	}
+
+	/**
+	 * Gets a readable label for the part, used when reporting errors.
+	 */
+	get name(): string {
+		return `${describeNode(this.owner)}[${this.label}]`;
+	}
+
+	/**
+	 * Tracks this part as a dependency of the current computation.
+	 */
+	track(): void {
+		DependencyTracker.trackDependency(this);
+	}
+
+	/**
+	 * Gets a number that changes whenever this part changes.
+	 */
+	getVersion(): number {
+		return this.version;
+	}
+
+	/**
+	 * Adds a dependent to this part.
+	 */
+	addDependent(dependent: IDependent): void {
+		this.dependents.add(dependent);
+	}
+
+	/**
+	 * Removes a dependent from this part.
+	 */
+	removeDependent(dependent: IDependent): void {
+		if (this.dependents.delete(dependent) && this.dependents.size === 0 && this.onUnused) {
+			this.onUnused();
+		}
+	}
+
+	/**
+	 * Gets the nodes that currently read this part.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(this.dependents);
+	}
+
+	/**
+	 * Records a change to this part and invalidates everything that read it.
+	 * The change is reported to instrumentation as coming from the owning collection.
+	 */
+	notifyDependents(): void {
+		this.version++;
+
+		// Create a copy to avoid issues if collection is modified during iteration
+		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this.owner, dependent);
+			dependent.invalidate();
+		});
+	}
+
+	/**
+	 * Drops all dependents.
+	 */
+	clear(): void {
+		this.dependents.clear();
+	}
+}
+
+/**
+ * Tracks readers of individual keys of a collection.
+ * A part is only created for a key while something reads it, so unread keys cost nothing.
+ */
+export class KeyedDependents<K> {
+	private owner: object;
+	private parts: Map<K, TrackedPart> = new Map();
+
+	/**
+	 * @param owner The collection the keys belong to
+	 */
+	constructor(owner: object) {
+		this.owner = owner;
+	}
+
+	/**
+	 * Tracks the specified key as a dependency of the current computation, if there is one.
+	 */
+	track(key: K): void {
+		if (!DependencyTracker.currentDependent) {
+			return;
+		}
+
+		let part = this.parts.get(key);
+		if (!part) {
+			const created = new TrackedPart(this.owner, String(key), () => {
+				if (this.parts.get(key) === created) {
+					this.parts.delete(key);
+				}
+			});
+			this.parts.set(key, created);
+			part = created;
+		}
+		part.track();
+	}
+
+	/**
+	 * Invalidates everything that read the specified key.
+	 */
+	notify(key: K): void {
+		const part = this.parts.get(key);
+		if (part) {
+			part.notifyDependents();
+		}
+	}
+
+	/**
+	 * Gets the nodes that currently read any key.
+	 */
+	getDependents(): IDependent[] {
+		const dependents = new Set<IDependent>();
+		this.parts.forEach(part => {
+			part.getDependents().forEach(dependent => dependents.add(dependent));
+		});
+		return Array.from(dependents);
+	}
+
+	/**
+	 * Drops all readers of all keys.
+	 */
+	clear(): void {
+		this.parts.forEach(part => part.clear());
+		this.parts.clear();
+	}
+}
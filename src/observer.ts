@@ -1,52 +1,318 @@
-import { IReactive } from './core';
+import { IDependent, IDisposable, IInspectable, IObservable, IReactive, ChangeInfo, DependencyTracker, Batch, Instrumentation } from './core';
+import { addSubscriber, removeSubscriber } from './graph';
+import { Scope } from './scope';
+import { IScheduler, Scheduler } from './scheduler';
+
+/**
+ * Options for creating an Observer.
+ */
+export interface ObserverOptions {
+	/**
+	 * The scope that owns the observer and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, shown when inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * The scheduler that decides when the callback or effect runs after a change.
+	 * Deliveries are coalesced, so a deferred observer runs once with the latest value.
+	 * Watchers default to running as soon as the watched value notifies; effects default to Scheduler.default.
+	 */
+	scheduler?: IScheduler;
+}
+
+/**
+ * A function returned from an effect to clean up before it runs again or is disposed.
+ */
+export type EffectCleanup = () => void;
+
+/**
+ * A side effect that may return a cleanup function.
+ */
+export type EffectFunction = () => void | EffectCleanup;
+
+/**
+ * Runs an effect function, re-running it whenever a dependency it used changes.
+ */
+class EffectRunner implements IDependent, IInspectable {
+	private effectFunc: EffectFunction;
+	private scheduler: IScheduler | null;
+	private dependencies: Set<IObservable> = new Set<IObservable>();
+	private dependencyVersions: Map<IObservable, number> = new Map();
+	private cleanup: EffectCleanup | null = null;
+	private isScheduled: boolean = false;
+	private isDisposed: boolean = false;
+
+	/**
+	 * The observer this runner belongs to, reported in its place when inspecting the graph.
+	 */
+	readonly owner: Observer;
+
+	constructor(effectFunc: EffectFunction, owner: Observer, scheduler?: IScheduler) {
+		this.effectFunc = effectFunc;
+		this.owner = owner;
+		this.scheduler = scheduler ?? null;
+	}
+
+	/**
+	 * Runs the effect, cleaning up the previous run and re-collecting dependencies.
+	 */
+	run(): void {
+		if (this.isDisposed) {
+			return;
+		}
+
+		this.isScheduled = false;
+		this.runCleanup();
+		const startTime = Instrumentation.now();
+
+		// Defer changes made by the effect itself until it has finished tracking
+		Batch.run(() => {
+			const previousDependencies = this.dependencies;
+			// Dependencies read before a throw are kept, so they can be unsubscribed and can re-run the effect
+			const outcome = DependencyTracker.tryTrack(this, this.effectFunc);
+			const dependencies = outcome.dependencies;
+
+			// Unsubscribe from anything the effect no longer reads
+			previousDependencies.forEach(dependency => {
+				if (!dependencies.has(dependency)) {
+					dependency.removeDependent(this);
+				}
+			});
+			this.dependencies = dependencies;
+			this.dependencyVersions = DependencyTracker.captureVersions(dependencies);
+
+			if (!outcome.succeeded) {
+				Instrumentation.evaluate(this.owner, 'failed', startTime);
+				throw outcome.error;
+			}
+			if (typeof outcome.result === 'function') {
+				this.cleanup = outcome.result;
+			}
+		});
+
+		Instrumentation.evaluate(this.owner, 'ran', startTime);
+	}
+
+	/**
+	 * Schedules the effect to run again once the current batch has settled and its scheduler delivers,
+	 * unless none of its dependencies actually changed by then.
+	 */
+	invalidate(): void {
+		if (!this.isDisposed && !this.isScheduled) {
+			this.isScheduled = true;
+			Batch.enqueue(this, () => {
+				(this.scheduler ?? Scheduler.default).schedule(this, () => this.rerunIfChanged());
+			}, this.height);
+		}
+	}
+
+	/**
+	 * Runs the effect again if any dependency changed since the last run.
+	 */
+	private rerunIfChanged(): void {
+		if (DependencyTracker.hasChanged(this.dependencyVersions)) {
+			this.run();
+		} else {
+			this.isScheduled = false;
+			Instrumentation.evaluate(this.owner, 'skipped', Instrumentation.now());
+		}
+	}
+
+	/**
+	 * Gets the depth of the effect in the dependency graph, one above its highest dependency.
+	 */
+	get height(): number {
+		let height = 0;
+		this.dependencies.forEach(dependency => {
+			height = Math.max(height, (dependency.height ?? 0) + 1);
+		});
+		return height;
+	}
+
+	/**
+	 * Gets the nodes the latest run of the effect read.
+	 */
+	getDependencies(): IObservable[] {
+		return Array.from(this.dependencies);
+	}
+
+	/**
+	 * Stops the effect, running its cleanup and unsubscribing from its dependencies.
+	 */
+	dispose(): void {
+		if (!this.isDisposed) {
+			this.isDisposed = true;
+			this.clearDependencies();
+			this.runCleanup();
+		}
+	}
+
+	private runCleanup(): void {
+		const cleanup = this.cleanup;
+		this.cleanup = null;
+		if (cleanup) {
+			cleanup();
+		}
+	}
+
+	private clearDependencies(): void {
+		this.dependencies.forEach(dependency => {
+			dependency.removeDependent(this);
+		});
+		this.dependencies.clear();
+	}
+}
 
 /**
  * Represents an observer that can subscribe to changes in reactive state.
  */
-export class Observer {
+export class Observer implements IDisposable, IInspectable {
 	private callback: (() => void) | null;
 	private cleanup: (() => void) | null;
+	private sources: (() => IObservable[]) | null = null;
+	private scope: Scope | null;
 	private isDisposed: boolean = false;
 
-	private constructor(callback: () => void) {
+	/**
+	 * An optional debug name, shown when inspecting the graph.
+	 */
+	name?: string;
+
+	private constructor(callback: () => void, options: ObserverOptions) {
 		this.callback = callback;
 		this.cleanup = null;
+		this.name = options.name;
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
 	}
 
 	/**
 	 * Creates an observer that reacts to changes in the specified reactive value.
+	 * The callback runs immediately with the current value only; later calls also receive the value
+	 * at the previous call and details of the change.
 	 */
-	static watch<T>(reactive: IReactive<T>, callback: (value: T) => void): Observer {
+	static watch<T>(
+		reactive: IReactive<T>,
+		callback: (value: T, previousValue?: T, info?: ChangeInfo) => void,
+		options: ObserverOptions = {}
+	): Observer {
 		// Execute callback with initial value
 		callback(reactive.value);
 
 		// Create observer
-		const observer = new Observer(() => callback(reactive.value));
+		const observer = new Observer(() => callback(reactive.value), options);
+		observer.sources = () => [reactive];
+		addSubscriber(reactive, observer);
+
+		// Subscribe to value changes, delivering through the scheduler if one was given.
+		// Coalesced deliveries report the value from before the first change that was not yet delivered,
+		// and the details of every change since.
+		const scheduler = options.scheduler;
+		let pending: { previousValue: T, info: ChangeInfo } | null = null;
+		const cleanup = reactive.onChange((value, previousValue, info) => {
+			if (!observer.callback) {
+				return;
+			}
 
-		// Subscribe to value changes
-		const cleanup = reactive.onChange(() => {
-			if (observer.callback) {
-				observer.callback();
+			if (scheduler) {
+				pending = pending
+					? { previousValue: pending.previousValue, info: mergeChangeInfo(pending.info, info) }
+					: { previousValue, info };
+				scheduler.schedule(observer, () => {
+					const delivery = pending;
+					pending = null;
+					if (observer.callback && delivery) {
+						const startTime = Instrumentation.now();
+						callback(reactive.value, delivery.previousValue, delivery.info);
+						Instrumentation.callback(observer, reactive, startTime);
+					}
+				});
+			} else {
+				const startTime = Instrumentation.now();
+				callback(value, previousValue, info);
+				Instrumentation.callback(observer, reactive, startTime);
 			}
 		});
 
 		// Store cleanup logic in the dispose method
-		observer.cleanup = cleanup;
+		observer.cleanup = () => {
+			cleanup();
+			removeSubscriber(reactive, observer);
+		};
+
+		return observer;
+	}
+
+	/**
+	 * Creates an observer that runs a side effect now and again whenever any reactive value it used changes.
+	 * Dependencies are re-collected on every run, so only values read by the latest run are observed.
+	 * @param effectFunc The effect to run; it may return a cleanup function that runs before the next run and on dispose
+	 *
+	 * @example
+	 * ```typescript
+	 * const observer = Observer.effect(() => {
+	 *   const handle = setInterval(() => console.log(message.use()), delay.use());
+	 *   return () => clearInterval(handle);
+	 * });
+	 * ```
+	 */
+	static effect(effectFunc: EffectFunction, options: ObserverOptions = {}): Observer {
+		const observer = new Observer(() => runner.run(), options);
+		const runner = new EffectRunner(effectFunc, observer, options.scheduler);
+
+		observer.sources = () => runner.getDependencies();
+		observer.cleanup = () => runner.dispose();
+		runner.run();
 
 		return observer;
 	}
 
 	/**
-	 * Stops observing the reactive value.
+	 * Gets the nodes this observer currently follows: the watched value, or everything the effect's latest run read.
+	 */
+	getDependencies(): IObservable[] {
+		return this.sources ? this.sources() : [];
+	}
+
+	/**
+	 * Stops observing, running any effect cleanup and leaving its scope.
 	 */
 	dispose(): void {
 		if (!this.isDisposed) {
 			if (this.cleanup) {
 				this.cleanup();
 			}
+			if (this.scope) {
+				this.scope.remove(this);
+			}
 			this.callback = null;
 			this.cleanup = null;
+			this.sources = null;
+			this.scope = null;
 			this.isDisposed = true;
 		}
 	}
 }
+
+/**
+ * Combines the details of two changes delivered together: the later fields win, except for the list mutations
+ * and map or set changes, which are kept from both in the order they were made.
+ */
+function mergeChangeInfo(earlier: ChangeInfo, later: ChangeInfo): ChangeInfo {
+	const merged: Record<string, unknown> = { ...later };
+	['mutations', 'changes'].forEach(key => {
+		const before = (earlier as unknown as Record<string, unknown>)[key];
+		const after = merged[key];
+		if (Array.isArray(before) && Array.isArray(after)) {
+			merged[key] = [...before, ...after];
+		}
+	});
+	return merged as unknown as ChangeInfo;
+}
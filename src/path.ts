@@ -0,0 +1,57 @@
+/**
+ * The type found at a dot-separated path into `T`, such as `'address.city'` or `'items.0.name'`.
+ * Resolves to `never` if the path does not exist in `T`.
+ */
+export type PathValue<T, P extends string> =
+	P extends `${infer Key}.${infer Rest}`
+		? PathValue<PathSegmentValue<T, Key>, Rest>
+		: PathSegmentValue<T, P>;
+
+/**
+ * The type of a single step into `T`: a property of an object or an index of an array.
+ */
+type PathSegmentValue<T, Key extends string> =
+	T extends readonly (infer Item)[]
+		? Key extends `${number}` ? Item : never
+		: Key extends keyof T ? T[Key] : never;
+
+/**
+ * Splits a dot-separated path into its keys.
+ */
+export function parsePath(path: string): string[] {
+	return path.length > 0 ? path.split('.') : [];
+}
+
+/**
+ * Reads the value at a path, or undefined if any step along the way is missing.
+ */
+export function getPath(root: unknown, keys: string[]): unknown {
+	let current = root;
+	for (const key of keys) {
+		if (current === null || current === undefined) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+/**
+ * Returns a copy of `root` with the value at a path replaced, copying every object and array along the path
+ * and sharing everything else. Missing steps are created as plain objects.
+ */
+export function setPath<T>(root: T, keys: string[], value: unknown): T {
+	if (keys.length === 0) {
+		return value as T;
+	}
+
+	const [key, ...rest] = keys;
+	const current = root as unknown as Record<string, unknown> | null | undefined;
+	const child = current === null || current === undefined ? undefined : current[key];
+	const copy: Record<string, unknown> = Array.isArray(current)
+		? [...current] as unknown as Record<string, unknown>
+		: { ...current };
+
+	copy[key] = setPath(child, rest, value);
+	return copy as unknown as T;
+}
@@ -0,0 +1,307 @@
+import { IDisposable, IReactive } from './core';
+import { State } from './state';
+import { Computed } from './computed';
+import { Scope } from './scope';
+import { ICodec, Codec } from './codec';
+import { IStorageAdapter } from './storage';
+
+/**
+ * The state of a persisted value.
+ * - `'loading'`: the stored value is being read
+ * - `'ready'`: the stored value was loaded (or there was none) and every save so far has finished
+ * - `'saving'`: a write to an asynchronous storage is in flight
+ * - `'error'`: the latest load or save failed; the error is available
+ */
+export type PersistStatus = 'loading' | 'ready' | 'saving' | 'error';
+
+/**
+ * Options for persisting a value.
+ */
+export interface PersistOptions<T> {
+	/**
+	 * The key the value is stored under.
+	 */
+	key: string;
+
+	/**
+	 * Where the value is stored.
+	 */
+	storage: IStorageAdapter;
+
+	/**
+	 * How the value is turned into a string and back. Defaults to `Codec.json()`, which handles Dates, Maps and Sets.
+	 */
+	codec?: ICodec<T>;
+
+	/**
+	 * How long to wait after the last change before writing, in milliseconds. Defaults to 100; 0 writes on every change.
+	 */
+	debounce?: number;
+
+	/**
+	 * The scope that owns the binding and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+}
+
+/**
+ * Binds a reactive value to a storage key: the stored value is loaded when the binding is created,
+ * and changes are written back after a short delay.
+ * Failures never throw from change listeners; they are reported through `status` and `error` instead.
+ */
+export class Persistence<T> implements IDisposable {
+	private target: IReactive<T>;
+	private key: string;
+	private storage: IStorageAdapter;
+	private codec: ICodec<T>;
+	private debounce: number;
+	private _status: State<PersistStatus> = new State<PersistStatus>('loading');
+	private _error: State<unknown> = new State<unknown>(undefined);
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private isApplyingLoad: boolean = false;
+	private loadedVersion: number | undefined = undefined;
+	private operation: number = 0;
+	private unsubscribe: (() => void) | null;
+	private scope: Scope | null;
+
+	/**
+	 * The state of the latest load or save, as a reactive value.
+	 */
+	readonly status: Computed<PersistStatus>;
+
+	/**
+	 * The error the latest load or save failed with, or undefined if it succeeded.
+	 */
+	readonly error: Computed<unknown>;
+
+	/**
+	 * Creates a binding and starts loading the stored value.
+	 * @param target The state or list to persist
+	 * @param options Where and how to store the value
+	 */
+	constructor(target: IReactive<T>, options: PersistOptions<T>) {
+		this.target = target;
+		this.key = options.key;
+		this.storage = options.storage;
+		this.codec = options.codec ?? Codec.json<T>();
+		this.debounce = options.debounce ?? 100;
+
+		this.status = new Computed(() => this._status.use());
+		this.error = new Computed(() => this._error.use());
+
+		this.unsubscribe = target.onChange(() => this.onTargetChanged());
+
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+
+		this.load();
+	}
+
+	/**
+	 * Gets whether a change is waiting for the debounce delay before being written.
+	 */
+	get hasPendingSave(): boolean {
+		return this.timer !== null;
+	}
+
+	/**
+	 * Reads the stored value and applies it to the target. Nothing is applied if nothing is stored,
+	 * or if the target changed while an asynchronous read was in flight.
+	 * @returns A promise that resolves once the value is applied or the load failed
+	 */
+	load(): Promise<void> {
+		const operation = ++this.operation;
+		const version = this.target.getVersion ? this.target.getVersion() : undefined;
+		this._status.set('loading');
+
+		return whenDone(() => this.storage.read(this.key), data => {
+			if (operation !== this.operation) {
+				return;
+			}
+
+			const changedMeanwhile = version !== undefined && this.target.getVersion!() !== version;
+			if (data !== null && !changedMeanwhile) {
+				const value = this.codec.decode(data);
+				this.isApplyingLoad = true;
+				try {
+					this.target.set(value);
+				} finally {
+					this.isApplyingLoad = false;
+				}
+				// Listeners may hear of the load later, at the end of a batch or from a deferred scheduler
+				this.loadedVersion = this.target.getVersion?.();
+			}
+			this.succeed();
+		}, error => this.fail(operation, error));
+	}
+
+	/**
+	 * Writes the current value now, cancelling any pending debounced write.
+	 * @returns A promise that resolves once the value is written or the write failed
+	 */
+	save(): Promise<void> {
+		this.cancelPendingSave();
+		const operation = ++this.operation;
+
+		return whenDone(() => {
+			const result = this.storage.write(this.key, this.codec.encode(this.target.peek()));
+			if (isPromise(result)) {
+				this._status.set('saving');
+			}
+			return result;
+		}, () => {
+			if (operation === this.operation) {
+				this.succeed();
+			}
+		}, error => this.fail(operation, error));
+	}
+
+	/**
+	 * Writes the pending change now, if there is one.
+	 * @returns A promise that resolves once the value is written or the write failed
+	 */
+	flush(): Promise<void> {
+		return this.hasPendingSave ? this.save() : Promise.resolve();
+	}
+
+	/**
+	 * Removes the stored value. The target keeps its current value.
+	 * @returns A promise that resolves once the value is removed or the removal failed
+	 */
+	clear(): Promise<void> {
+		this.cancelPendingSave();
+		const operation = ++this.operation;
+
+		return whenDone(() => this.storage.remove(this.key), () => {
+			if (operation === this.operation) {
+				this.succeed();
+			}
+		}, error => this.fail(operation, error));
+	}
+
+	/**
+	 * Stops following the target and leaves the scope. A pending debounced write is dropped; call flush() first to keep it.
+	 */
+	dispose(): void {
+		this.cancelPendingSave();
+		this.operation++;
+
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+
+		this.status.dispose();
+		this.error.dispose();
+		this._status.dispose();
+		this._error.dispose();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	/**
+	 * Schedules a write after a change, unless the change came from loading: either it is delivered while
+	 * the load is being applied, or the target has not changed since.
+	 */
+	private onTargetChanged(): void {
+		const isLoadedValue = this.loadedVersion !== undefined && this.target.getVersion?.() === this.loadedVersion;
+		if (this.isApplyingLoad || isLoadedValue) {
+			return;
+		}
+
+		if (this.debounce <= 0) {
+			this.save();
+			return;
+		}
+
+		this.cancelPendingSave();
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.save();
+		}, this.debounce);
+	}
+
+	private cancelPendingSave(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private succeed(): void {
+		this._error.set(undefined);
+		this._status.set('ready');
+	}
+
+	private fail(operation: number, error: unknown): void {
+		if (operation === this.operation) {
+			this._error.set(error);
+			this._status.set('error');
+		}
+	}
+}
+
+/**
+ * Checks whether a value is a promise or other thenable.
+ */
+function isPromise<T>(value: unknown): value is PromiseLike<T> {
+	return value !== null && typeof value === 'object' && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * Runs a step that may finish synchronously or return a promise, handling the result as soon as it is available.
+ * Synchronous results are handled before this returns; errors, thrown or rejected, go to the error handler.
+ * @returns A promise that resolves once the result or error has been handled
+ */
+function whenDone<R>(step: () => R | PromiseLike<R>, onDone: (result: R) => void, onError: (error: unknown) => void): Promise<void> {
+	const handle = (result: R) => {
+		try {
+			onDone(result);
+		} catch (error) {
+			onError(error);
+		}
+	};
+
+	let result: R | PromiseLike<R>;
+	try {
+		result = step();
+	} catch (error) {
+		onError(error);
+		return Promise.resolve();
+	}
+
+	if (isPromise<R>(result)) {
+		return Promise.resolve(result).then(handle, onError);
+	}
+
+	handle(result);
+	return Promise.resolve();
+}
+
+/**
+ * Binds a state or list to a storage key: the stored value is loaded straight away, and every change
+ * is written back once no further changes arrive for the debounce delay.
+ * Load and save failures are reported through the returned binding's `status` and `error` rather than thrown.
+ *
+ * @param target The state or list to persist
+ * @param options The key, the storage adapter and optionally the codec and debounce delay
+ * @returns The binding, which can be disposed to stop persisting
+ *
+ * @example
+ * ```typescript
+ * const settings = new State({ theme: 'light', lastOpened: new Date() });
+ * const persisted = persist(settings, { key: 'settings', storage: StorageAdapter.local() });
+ *
+ * Observer.watch(persisted.status, status => {
+ *   if (status === 'error') console.error(persisted.error.value);
+ * });
+ * ```
+ */
+export function persist<T>(target: IReactive<T>, options: PersistOptions<T>): Persistence<T> {
+	return new Persistence(target, options);
+}
@@ -0,0 +1,209 @@
+import { EvaluationOutcome, IInstrument, Instrumentation, describeNode } from './core';
+import { getDependents, getListenerCount } from './graph';
+
+/**
+ * The measurements for a single Computed, AsyncComputed or Observer.
+ */
+export interface ProfileEntry {
+	/**
+	 * The node measured.
+	 */
+	node: object;
+
+	/**
+	 * A readable label for the node, its debug name if it has one.
+	 */
+	name: string;
+
+	/**
+	 * The kind of node, such as `'Computed'` or `'Observer'`.
+	 */
+	type: string;
+
+	/**
+	 * How many times the node was invalidated by a dependency.
+	 */
+	invalidations: number;
+
+	/**
+	 * How many times the compute function, effect or watch callback ran.
+	 */
+	recomputations: number;
+
+	/**
+	 * How many times the node was brought up to date without a change: it recomputed to an equal value,
+	 * or none of its dependencies actually changed.
+	 */
+	equalResults: number;
+
+	/**
+	 * The total time spent in the compute function, effect or callback, in milliseconds.
+	 */
+	totalTime: number;
+
+	/**
+	 * The longest single run, in milliseconds.
+	 */
+	maxTime: number;
+
+	/**
+	 * How many dependents and listeners the node notifies when it changes, as of the end of profiling.
+	 */
+	fanOut: number;
+}
+
+/**
+ * The measurements collected between starting and stopping the profiler.
+ */
+export interface ProfileReport {
+	/**
+	 * How long the profiler ran, in milliseconds.
+	 */
+	duration: number;
+
+	/**
+	 * One entry per node that did any work, most expensive first.
+	 */
+	entries: ProfileEntry[];
+}
+
+/**
+ * Static class for measuring how often nodes recompute and how long they take.
+ * Every Computed, AsyncComputed and Observer is measured while the profiler runs; give nodes a `name` to tell them apart.
+ *
+ * @example
+ * ```typescript
+ * const report = Profiler.profile(() => {
+ *   for (let i = 0; i < 100; i++) {
+ *     count.set(i);
+ *   }
+ * });
+ * console.log(Profiler.format(report));
+ * ```
+ */
+export class Profiler {
+	private static removeInstrument: (() => void) | null = null;
+	private static startTime: number = 0;
+	private static entries: Map<object, ProfileEntry> = new Map();
+
+	/**
+	 * Gets whether the profiler is running.
+	 */
+	static get isProfiling(): boolean {
+		return this.removeInstrument !== null;
+	}
+
+	/**
+	 * Starts profiling, discarding any previous measurements.
+	 */
+	static start(): void {
+		this.stop();
+		this.entries = new Map();
+
+		const instrument: IInstrument = {
+			onInvalidate: (source, dependent) => Profiler.recordInvalidation(dependent),
+			onEvaluate: (node, outcome, duration) => Profiler.recordEvaluation(node, outcome, duration),
+			onCallback: (node, source, duration) => Profiler.recordRun(Profiler.entryFor(node), duration)
+		};
+		this.removeInstrument = Instrumentation.add(instrument);
+		this.startTime = Instrumentation.now();
+	}
+
+	/**
+	 * Stops profiling.
+	 * @returns The measurements collected since profiling started
+	 */
+	static stop(): ProfileReport {
+		const duration = Instrumentation.now() - this.startTime;
+
+		if (this.removeInstrument) {
+			this.removeInstrument();
+			this.removeInstrument = null;
+		}
+
+		const entries = Array.from(this.entries.values());
+		entries.forEach(entry => {
+			entry.fanOut = getDependents(entry.node).length + getListenerCount(entry.node);
+		});
+		entries.sort((a, b) => b.totalTime - a.totalTime);
+
+		return { duration, entries };
+	}
+
+	/**
+	 * Profiles the specified function.
+	 * @returns The measurements collected while the function ran
+	 */
+	static profile(func: () => void): ProfileReport {
+		this.start();
+		try {
+			func();
+		} catch (error) {
+			this.stop();
+			throw error;
+		}
+		return this.stop();
+	}
+
+	/**
+	 * Formats a report as a table, one node per line.
+	 */
+	static format(report: ProfileReport): string {
+		const header = ['name', 'type', 'invalidations', 'recomputations', 'equal', 'total ms', 'max ms', 'fan-out'];
+		const rows = report.entries.map(entry => [
+			entry.name,
+			entry.type,
+			String(entry.invalidations),
+			String(entry.recomputations),
+			String(entry.equalResults),
+			entry.totalTime.toFixed(2),
+			entry.maxTime.toFixed(2),
+			String(entry.fanOut)
+		]);
+
+		const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+		return [header, ...rows]
+			.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+			.join('\n');
+	}
+
+	private static entryFor(node: object): ProfileEntry {
+		let entry = this.entries.get(node);
+		if (!entry) {
+			entry = {
+				node,
+				name: describeNode(node),
+				type: node.constructor.name,
+				invalidations: 0,
+				recomputations: 0,
+				equalResults: 0,
+				totalTime: 0,
+				maxTime: 0,
+				fanOut: 0
+			};
+			this.entries.set(node, entry);
+		}
+		return entry;
+	}
+
+	private static recordInvalidation(node: object): void {
+		this.entryFor(node).invalidations++;
+	}
+
+	private static recordEvaluation(node: object, outcome: EvaluationOutcome, duration: number): void {
+		const entry = this.entryFor(node);
+
+		if (outcome === 'equal' || outcome === 'skipped') {
+			entry.equalResults++;
+		}
+		if (outcome !== 'skipped') {
+			this.recordRun(entry, duration);
+		}
+	}
+
+	private static recordRun(entry: ProfileEntry, duration: number): void {
+		entry.recomputations++;
+		entry.totalTime += duration;
+		entry.maxTime = Math.max(entry.maxTime, duration);
+	}
+}
@@ -1,21 +1,113 @@
-import { Computed } from './computed';
-import { IDependent, IReactive, DependencyTracker } from './core';
+import { Computed, ComputedOptions } from './computed';
+import { IDependent, IDisposable, IInspectable, IReactive, ChangeInfo, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { Scope } from './scope';
+import { Scheduler } from './scheduler';
+import { Interceptor, InterceptorChain } from './interceptor';
+
+/**
+ * Options for creating a ReactiveList.
+ */
+export interface ReactiveListOptions<T = unknown> {
+	/**
+	 * The scope that owns the list and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Interceptors that every mutation of the list passes through before it is applied, in order.
+	 */
+	interceptors?: ListInterceptor<T>[];
+}
+
+/**
+ * The list operations that can change a ReactiveList.
+ */
+export type ListMutationKind = 'add' | 'insert' | 'remove' | 'update' | 'replace' | 'clear';
+
+/**
+ * Describes one change to a ReactiveList as a splice: `removed` items were taken out at `index`
+ * and `added` items were put in their place.
+ */
+export interface ListMutation<T> {
+	readonly kind: ListMutationKind;
+	readonly index: number;
+	readonly added: T[];
+	readonly removed: T[];
+}
+
+/**
+ * Describes a delivered change to a ReactiveList.
+ */
+export interface ListChangeInfo<T> extends ChangeInfo {
+	/**
+	 * The kind of the most recent mutation in this delivery.
+	 */
+	readonly kind: ListMutationKind;
+
+	/**
+	 * Every mutation since the previous delivery, in the order they were made.
+	 */
+	readonly mutations: ListMutation<T>[];
+}
+
+/**
+ * Middleware run on every mutation of a ReactiveList, before the items change and before dependents and listeners hear of it.
+ * The mutation describes the write as a splice. It can be passed on as it is or transformed, vetoed by not calling `next`, or observed.
+ * A transformed mutation may change the items in `added`, keeping their number, and for `add`, `insert`, `remove`
+ * and `update` the `index` they apply at. `replace` and `clear` always apply to the whole list, so only the items
+ * a `replace` puts in can change, and a `clear` can only be passed on or vetoed. `kind` cannot change,
+ * and `removed` is taken from the list when the mutation is applied.
+ *
+ * @example
+ * ```typescript
+ * const trim: ListInterceptor<string> = (mutation, next) =>
+ *   next({ ...mutation, added: mutation.added.map(item => item.trim()) });
+ * const readOnly: ListInterceptor<string> = (mutation, next) => {
+ *   if (mutation.kind === 'remove' || mutation.kind === 'clear') throw new Error("Items cannot be removed.");
+ *   next(mutation);
+ * };
+ * ```
+ */
+export type ListInterceptor<T> = Interceptor<ListMutation<T>, ReactiveList<T>>;
 
 /**
  * Represents a reactive list that notifies dependents when its items change.
  */
-export class ReactiveList<T> implements IReactive<T[]> {
+export class ReactiveList<T> implements IReactive<T[]>, IDisposable, IInspectable {
 	private _items: T[] = [];
 	private dependents: Set<IDependent> = new Set<IDependent>();
-	private listeners: Set<(items: T[]) => void> = new Set();
+	private listeners: Set<ChangeListener<T[], ListChangeInfo<T>>> = new Set();
+	private deliveredItems: T[] | null = null;
+	private pendingMutations: ListMutation<T>[] = [];
 	private addListeners: Set<(item: T, index: number) => void> = new Set();
 	private removeListeners: Set<(item: T, index: number) => void> = new Set();
+	private mutationListeners: Set<(mutation: ListMutation<T>) => void> = new Set();
+	private scope: Scope | null;
+	private version: number = 0;
+	private interceptors: InterceptorChain<ListMutation<T>, ReactiveList<T>>;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
 
 	/**
 	 * Creates a new reactive list with the given initial items.
+	 * The initial items do not pass through the interceptors.
 	 */
-	constructor(initialItems?: T[]) {
+	constructor(initialItems?: T[], options: ReactiveListOptions<T> = {}) {
 		this._items = initialItems ? [...initialItems] : [];
+		this.name = options.name;
+		this.interceptors = new InterceptorChain(options.interceptors);
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
 	}
 
 	/**
@@ -61,58 +153,100 @@ export class ReactiveList<T> implements IReactive<T[]> {
 	 * Adds an item to the end of the list.
 	 */
 	add(item: T): void {
-		const index = this._items.length;
-		this._items.push(item);
-		this.notifyItemAdded(item, index);
-		this.onItemsChanged();
+		this.interceptors.run({ kind: 'add', index: this._items.length, added: [item], removed: [] }, this, mutation => {
+			// An interceptor may have moved the item elsewhere; anything out of range still goes at the end
+			const index = mutation.index >= 0 && mutation.index < this._items.length ? mutation.index : this._items.length;
+			const added = mutation.added[0];
+			if (index === this._items.length) {
+				this._items.push(added);
+			} else {
+				this._items.splice(index, 0, added);
+			}
+			this.notifyItemAdded(added, index);
+			this.onItemsChanged({ kind: 'add', index, added: [added], removed: [] });
+		});
 	}
 
 	/**
 	 * Inserts an item at the specified index.
+	 * An index below zero inserts at the start, and one past the end inserts at the end.
 	 */
 	insert(index: number, item: T): void {
-		this._items.splice(index, 0, item);
-		this.notifyItemAdded(item, index);
-		this.onItemsChanged();
+		this.interceptors.run({ kind: 'insert', index: this.clampInsertIndex(index), added: [item], removed: [] }, this, mutation => {
+			// An interceptor may have moved the item out of range too
+			const index = this.clampInsertIndex(mutation.index);
+			const added = mutation.added[0];
+			this._items.splice(index, 0, added);
+			this.notifyItemAdded(added, index);
+			this.onItemsChanged({ kind: 'insert', index, added: [added], removed: [] });
+		});
+	}
+
+	/**
+	 * Clamps an index to where an item can be inserted, from the start to just past the end of the list.
+	 */
+	private clampInsertIndex(index: number): number {
+		return Math.min(Math.max(0, index), this._items.length);
 	}
 
 	/**
 	 * Removes an item from the list.
+	 * @returns Whether the item was found and its removal was not vetoed by an interceptor
 	 */
 	remove(item: T): boolean {
 		const index = this._items.indexOf(item);
-		if (index >= 0) {
-			this._items.splice(index, 1);
-			this.notifyItemRemoved(item, index);
-			this.onItemsChanged();
-			return true;
-		}
-		return false;
+		return index >= 0 && this.removeIndex(index) !== null;
 	}
 
 	/**
 	 * Removes the item at the specified index.
+	 * @returns The removed item, or undefined if the index is out of range or the removal was vetoed by an interceptor
 	 */
 	removeAt(index: number): T | undefined {
 		if (index >= 0 && index < this._items.length) {
-			const item = this._items.splice(index, 1)[0];
-			this.notifyItemRemoved(item, index);
-			this.onItemsChanged();
-			return item;
+			const removed = this.removeIndex(index);
+			return removed ? removed.item : undefined;
 		}
 		return undefined;
 	}
 
+	/**
+	 * Removes the item at an index known to be in range, passing the removal through the interceptors.
+	 * @returns The removed item, or null if nothing was removed
+	 */
+	private removeIndex(index: number): { item: T } | null {
+		let removed: { item: T } | null = null;
+		this.interceptors.run({ kind: 'remove', index, added: [], removed: [this._items[index]] }, this, mutation => {
+			if (mutation.index >= 0 && mutation.index < this._items.length) {
+				const item = this._items.splice(mutation.index, 1)[0];
+				this.notifyItemRemoved(item, mutation.index);
+				this.onItemsChanged({ kind: 'remove', index: mutation.index, added: [], removed: [item] });
+				removed = { item };
+			}
+		});
+		return removed;
+	}
+
 	/**
 	 * Updates an item at the specified index.
+	 * @returns Whether the index was in range and the update was not vetoed by an interceptor
 	 */
 	update(index: number, item: T): boolean {
-		if (index >= 0 && index < this._items.length) {
-			this._items[index] = item;
-			this.onItemsChanged();
-			return true;
+		if (index < 0 || index >= this._items.length) {
+			return false;
 		}
-		return false;
+
+		let updated = false;
+		this.interceptors.run({ kind: 'update', index, added: [item], removed: [this._items[index]] }, this, mutation => {
+			if (mutation.index >= 0 && mutation.index < this._items.length) {
+				const previousItem = this._items[mutation.index];
+				const added = mutation.added[0];
+				this._items[mutation.index] = added;
+				this.onItemsChanged({ kind: 'update', index: mutation.index, added: [added], removed: [previousItem] });
+				updated = true;
+			}
+		});
+		return updated;
 	}
 
 	/**
@@ -120,19 +254,23 @@ export class ReactiveList<T> implements IReactive<T[]> {
 	 */
 	clear(): void {
 		if (this._items.length > 0) {
-			// Only make a copy and notify if there are remove listeners
-			if (this.removeListeners.size > 0) {
-				const items = [...this._items]; // Make a copy for notifications
-
-				// Notify about each item removal from last to first
-				// (to maintain correct indexes during removal)
-				for (let i = items.length - 1; i >= 0; i--) {
-					this.notifyItemRemoved(items[i], i);
+			// Nothing about a clear can be transformed, so the mutation passed on is not needed
+			this.interceptors.run({ kind: 'clear', index: 0, added: [], removed: [...this._items] }, this, () => {
+				// Only make a copy and notify if there are remove listeners
+				if (this.removeListeners.size > 0) {
+					const items = [...this._items]; // Make a copy for notifications
+
+					// Notify about each item removal from last to first
+					// (to maintain correct indexes during removal)
+					for (let i = items.length - 1; i >= 0; i--) {
+						this.notifyItemRemoved(items[i], i);
+					}
 				}
-			}
 
-			this._items = [];
-			this.onItemsChanged();
+				const removed = this._items;
+				this._items = [];
+				this.onItemsChanged({ kind: 'clear', index: 0, added: [], removed });
+			});
 		}
 	}
 
@@ -140,27 +278,39 @@ export class ReactiveList<T> implements IReactive<T[]> {
 	 * Replaces all items in the list.
 	 */
 	replace(items: T[]): void {
-		// Only process remove notifications if we have listeners
-		if (this.removeListeners.size > 0) {
-			// Handle removed items first (from last to first to maintain correct indexes)
-			const oldItems = [...this._items];
-			for (let i = oldItems.length - 1; i >= 0; i--) {
-				this.notifyItemRemoved(oldItems[i], i);
+		this.interceptors.run({ kind: 'replace', index: 0, added: [...items], removed: [...this._items] }, this, mutation => {
+			// Only process remove notifications if we have listeners
+			if (this.removeListeners.size > 0) {
+				// Handle removed items first (from last to first to maintain correct indexes)
+				const oldItems = [...this._items];
+				for (let i = oldItems.length - 1; i >= 0; i--) {
+					this.notifyItemRemoved(oldItems[i], i);
+				}
 			}
-		}
 
-		// Set new items
-		this._items = [...items];
+			// Set new items
+			const removed = this._items;
+			this._items = [...mutation.added];
 
-		// Only process add notifications if we have listeners
-		if (this.addListeners.size > 0) {
-			// Handle added items
-			this._items.forEach((item, index) => {
-				this.notifyItemAdded(item, index);
-			});
-		}
+			// Only process add notifications if we have listeners
+			if (this.addListeners.size > 0) {
+				// Handle added items
+				this._items.forEach((item, index) => {
+					this.notifyItemAdded(item, index);
+				});
+			}
 
-		this.onItemsChanged();
+			this.onItemsChanged({ kind: 'replace', index: 0, added: [...this._items], removed });
+		});
+	}
+
+	/**
+	 * Registers an interceptor that every mutation of the list passes through, after the existing ones.
+	 * @param interceptor The middleware to run before each mutation is applied
+	 * @returns A function that removes the interceptor
+	 */
+	intercept(interceptor: ListInterceptor<T>): () => void {
+		return this.interceptors.add(interceptor);
 	}
 
 	/**
@@ -182,29 +332,40 @@ export class ReactiveList<T> implements IReactive<T[]> {
 
 	/**
 	 * Filters the list to create a reactive computed list.
+	 * @param options Options for the computed, such as `autoDispose` for temporary derivations
 	 */
-	filter(predicate: (item: T) => boolean): Computed<T[]> {
-		const { Computed } = require('./computed');
-		return new Computed(() => this.use().filter(predicate));
+	filter(predicate: (item: T) => boolean, options?: ComputedOptions<T[]>): Computed<T[]> {
+		const { Computed }: typeof import('./computed') = require('./computed');
+		return new Computed(() => this.use().filter(predicate), options);
 	}
 
 	/**
 	 * Maps the list to create a reactive computed list.
+	 * @param options Options for the computed, such as `autoDispose` for temporary derivations
 	 */
-	map<R>(selector: (item: T) => R): Computed<R[]> {
-		const { Computed } = require('./computed');
-		return new Computed(() => this.use().map(selector));
+	map<R>(selector: (item: T) => R, options?: ComputedOptions<R[]>): Computed<R[]> {
+		const { Computed }: typeof import('./computed') = require('./computed');
+		return new Computed(() => this.use().map(selector), options);
 	}
 
 	/**
 	 * Registers a callback for when items change.
-	 * @param callback The function to call when items change
+	 * @param callback The function to call with a copy of the new items, the items at the previous delivery
+	 * and the mutations made since then
 	 * @returns A function that can be called to unregister the callback
 	 */
-	onChange(callback: (items: T[]) => void): () => void {
+	onChange(callback: ChangeListener<T[], ListChangeInfo<T>>): () => void {
+		if (this.listeners.size === 0) {
+			this.deliveredItems = [...this._items];
+		}
+
 		this.listeners.add(callback);
 		return () => {
 			this.listeners.delete(callback);
+			if (this.listeners.size === 0) {
+				this.deliveredItems = null;
+				this.pendingMutations = [];
+			}
 		};
 	}
 
@@ -232,6 +393,20 @@ export class ReactiveList<T> implements IReactive<T[]> {
 		};
 	}
 
+	/**
+	 * Registers a callback for every mutation as it is applied, after the interceptors and before dependents
+	 * and change listeners hear of it. Unlike onChange(), it is called once per mutation, even inside a batch
+	 * or with a deferred scheduler. Changes reported through onItemsChanged() without a mutation are not passed on.
+	 * @param callback The function to call with the mutation as it was applied
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onMutation(callback: (mutation: ListMutation<T>) => void): () => void {
+		this.mutationListeners.add(callback);
+		return () => {
+			this.mutationListeners.delete(callback);
+		};
+	}
+
 	/**
 	 * Notifies listeners about an item being added.
 	 * @private
@@ -254,15 +429,57 @@ export class ReactiveList<T> implements IReactive<T[]> {
 
 	/**
 	 * Called when items change.
+	 * Dependents are invalidated immediately; inside a batch, change listeners are notified once when the batch ends.
+	 * @param mutation The change that was made, if known; it is passed on to change listeners
 	 */
-	onItemsChanged(): void {
-		if (this.dependents.size > 0) {
-			this.notifyDependents();
-		}
+	onItemsChanged(mutation?: ListMutation<T>): void {
+		this.version++;
+		Instrumentation.origin(this, mutation ? mutation.kind : 'replace');
 
-		if (this.listeners.size > 0) {
-			this.listeners.forEach(listener => listener(this._items));
+		if (mutation && this.listeners.size > 0) {
+			this.pendingMutations.push(mutation);
 		}
+		if (mutation && this.mutationListeners.size > 0) {
+			this.mutationListeners.forEach(listener => listener(mutation));
+		}
+
+		Batch.run(() => {
+			if (this.dependents.size > 0) {
+				this.notifyDependents();
+			}
+
+			Batch.enqueue(this, () => {
+				if (this.listeners.size > 0) {
+					Scheduler.default.schedule(this, () => this.notifyListeners());
+				}
+			});
+		});
+	}
+
+	/**
+	 * Delivers the current items, the items at the previous delivery and the pending mutations to every change listener.
+	 */
+	private notifyListeners(): void {
+		const items = [...this._items];
+		const previousItems = this.deliveredItems ?? items;
+		const mutations = this.pendingMutations;
+		const info: ListChangeInfo<T> = {
+			source: this,
+			kind: mutations.length > 0 ? mutations[mutations.length - 1].kind : 'replace',
+			mutations
+		};
+
+		this.deliveredItems = items;
+		this.pendingMutations = [];
+
+		this.listeners.forEach(listener => listener(items, previousItems, info));
+	}
+
+	/**
+	 * Gets a number that changes whenever the items of this list change.
+	 */
+	getVersion(): number {
+		return this.version;
 	}
 
 	/**
@@ -279,13 +496,47 @@ export class ReactiveList<T> implements IReactive<T[]> {
 		this.dependents.delete(dependent);
 	}
 
+	/**
+	 * Gets the nodes that currently read this list.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(this.dependents);
+	}
+
+	/**
+	 * Gets the number of change, mutation, item added and item removed listeners registered on this list.
+	 */
+	getListenerCount(): number {
+		return this.listeners.size + this.addListeners.size + this.removeListeners.size + this.mutationListeners.size;
+	}
+
 	/**
 	 * Notifies all dependents that this list has changed.
 	 */
 	notifyDependents(): void {
 		// Create a copy to avoid issues if collection is modified during iteration
 		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this, dependent);
 			dependent.invalidate();
 		});
 	}
+
+	/**
+	 * Releases the list, dropping all dependents and listeners and leaving its scope.
+	 */
+	dispose(): void {
+		this.dependents.clear();
+		this.listeners.clear();
+		this.deliveredItems = null;
+		this.pendingMutations = [];
+		this.addListeners.clear();
+		this.removeListeners.clear();
+		this.mutationListeners.clear();
+		this.interceptors.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
 }
@@ -0,0 +1,430 @@
+import { IDependent, IDisposable, IInspectable, IReactive, ChangeInfo, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { Scope } from './scope';
+import { EqualityFunction, EqualityOption, resolveEquality } from './equality';
+import { Scheduler } from './scheduler';
+import { KeyedDependents, TrackedPart } from './keyed-dependents';
+
+/**
+ * Options for creating a ReactiveMap.
+ */
+export interface ReactiveMapOptions<V> {
+	/**
+	 * The scope that owns the map and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * How to decide whether a value set for an existing key differs from the current one. Defaults to `'strict'` (`===`).
+	 */
+	equals?: EqualityOption<V>;
+}
+
+/**
+ * Describes one change to a single key of a ReactiveMap.
+ */
+export interface MapChange<K, V> {
+	readonly kind: 'add' | 'update' | 'delete';
+	readonly key: K;
+
+	/**
+	 * The new value, for added and updated keys.
+	 */
+	readonly value?: V;
+
+	/**
+	 * The value before the change, for updated and deleted keys.
+	 */
+	readonly previousValue?: V;
+}
+
+/**
+ * Describes a delivered change to a ReactiveMap.
+ */
+export interface MapChangeInfo<K, V> extends ChangeInfo {
+	/**
+	 * Every key change since the previous delivery, in the order they were made.
+	 */
+	readonly changes: MapChange<K, V>[];
+}
+
+/**
+ * Represents a reactive map that tracks readers per key.
+ * A computed that reads `map.get('a')` is only invalidated when `'a'` is added, changed or deleted;
+ * `size` and `keys()` are invalidated only when keys are added or deleted; reading the whole map
+ * with `use()`, `values()` or `entries()` is invalidated by any change.
+ *
+ * @example
+ * ```typescript
+ * const scores = new ReactiveMap<string, number>([['alice', 1]]);
+ * const alice = new Computed(() => scores.get('alice') ?? 0);
+ *
+ * scores.set('bob', 2);   // alice is not recomputed
+ * scores.set('alice', 3); // alice becomes 3
+ * ```
+ */
+export class ReactiveMap<K, V> implements IReactive<Map<K, V>>, IDisposable, IInspectable {
+	private _entries: Map<K, V>;
+	private dependents: Set<IDependent> = new Set<IDependent>();
+	private keyDependents: KeyedDependents<K> = new KeyedDependents<K>(this);
+	private keysPart: TrackedPart = new TrackedPart(this, 'keys');
+	private listeners: Set<ChangeListener<Map<K, V>, MapChangeInfo<K, V>>> = new Set();
+	private deliveredEntries: Map<K, V> | null = null;
+	private pendingChanges: MapChange<K, V>[] = [];
+	private addListeners: Set<(key: K, value: V) => void> = new Set();
+	private removeListeners: Set<(key: K, value: V) => void> = new Set();
+	private changeListeners: Set<(key: K, value: V, previousValue: V) => void> = new Set();
+	private scope: Scope | null;
+	private equalityFunc: EqualityFunction<V>;
+	private version: number = 0;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Creates a new reactive map with the given initial entries.
+	 */
+	constructor(initialEntries?: Iterable<readonly [K, V]>, options: ReactiveMapOptions<V> = {}) {
+		this._entries = new Map(initialEntries ?? []);
+		this.name = options.name;
+		this.equalityFunc = resolveEquality(options.equals);
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+	}
+
+	/**
+	 * Gets a copy of the current entries without tracking dependencies.
+	 */
+	get value(): Map<K, V> {
+		return this.peek();
+	}
+
+	/**
+	 * Replaces all entries with those of the given map.
+	 * Only keys that were added, changed or deleted notify their readers.
+	 * @param newEntries The new entries
+	 */
+	set(newEntries: Map<K, V>): void;
+
+	/**
+	 * Sets the value for a key, adding the key if it is new.
+	 * Nothing is notified if the key already holds an equal value.
+	 * @param key The key to set
+	 * @param value The new value for the key
+	 */
+	set(key: K, value: V): void;
+
+	set(keyOrEntries: K | Map<K, V>, value?: V): void {
+		if (arguments.length >= 2) {
+			this.setEntry(keyOrEntries as K, value as V);
+			return;
+		}
+
+		const newEntries = keyOrEntries as Map<K, V>;
+		Batch.run(() => {
+			Array.from(this._entries.keys()).forEach(key => {
+				if (!newEntries.has(key)) {
+					this.delete(key);
+				}
+			});
+			newEntries.forEach((entryValue, key) => this.setEntry(key, entryValue));
+		});
+	}
+
+	/**
+	 * Gets a copy of the current entries without tracking dependencies.
+	 */
+	peek(): Map<K, V> {
+		return new Map(this._entries);
+	}
+
+	/**
+	 * Gets a copy of the current entries and tracks the whole map as a dependency.
+	 */
+	use(): Map<K, V> {
+		DependencyTracker.trackDependency(this);
+		return new Map(this._entries);
+	}
+
+	/**
+	 * Gets the value for a key and tracks that key as a dependency.
+	 */
+	get(key: K): V | undefined {
+		this.keyDependents.track(key);
+		return this._entries.get(key);
+	}
+
+	/**
+	 * Gets whether the map contains a key and tracks that key as a dependency.
+	 */
+	has(key: K): boolean {
+		this.keyDependents.track(key);
+		return this._entries.has(key);
+	}
+
+	/**
+	 * Gets the number of entries and tracks the set of keys as a dependency.
+	 */
+	get size(): number {
+		this.keysPart.track();
+		return this._entries.size;
+	}
+
+	/**
+	 * Gets the keys and tracks the set of keys as a dependency.
+	 */
+	keys(): K[] {
+		this.keysPart.track();
+		return Array.from(this._entries.keys());
+	}
+
+	/**
+	 * Gets the values and tracks the whole map as a dependency.
+	 */
+	values(): V[] {
+		DependencyTracker.trackDependency(this);
+		return Array.from(this._entries.values());
+	}
+
+	/**
+	 * Gets the entries and tracks the whole map as a dependency.
+	 */
+	entries(): Array<[K, V]> {
+		DependencyTracker.trackDependency(this);
+		return Array.from(this._entries.entries());
+	}
+
+	/**
+	 * Removes a key from the map.
+	 * @returns Whether the key was present
+	 */
+	delete(key: K): boolean {
+		if (!this._entries.has(key)) {
+			return false;
+		}
+
+		const previousValue = this._entries.get(key) as V;
+		this._entries.delete(key);
+		this.removeListeners.forEach(listener => listener(key, previousValue));
+		this.onEntriesChanged({ kind: 'delete', key, previousValue }, true);
+		return true;
+	}
+
+	/**
+	 * Removes all keys from the map.
+	 */
+	clear(): void {
+		if (this._entries.size > 0) {
+			Batch.run(() => {
+				Array.from(this._entries.keys()).forEach(key => this.delete(key));
+			});
+		}
+	}
+
+	/**
+	 * Registers a callback for when the entries change.
+	 * @param callback The function to call with a copy of the new entries, the entries at the previous delivery
+	 * and the key changes made since then
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onChange(callback: ChangeListener<Map<K, V>, MapChangeInfo<K, V>>): () => void {
+		if (this.listeners.size === 0) {
+			this.deliveredEntries = new Map(this._entries);
+		}
+
+		this.listeners.add(callback);
+		return () => {
+			this.listeners.delete(callback);
+			if (this.listeners.size === 0) {
+				this.deliveredEntries = null;
+				this.pendingChanges = [];
+			}
+		};
+	}
+
+	/**
+	 * Registers a callback for when a key is added to the map.
+	 * @param callback The function to call with the added key and its value
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onKeyAdded(callback: (key: K, value: V) => void): () => void {
+		this.addListeners.add(callback);
+		return () => {
+			this.addListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Registers a callback for when a key is removed from the map.
+	 * @param callback The function to call with the removed key and its last value
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onKeyRemoved(callback: (key: K, value: V) => void): () => void {
+		this.removeListeners.add(callback);
+		return () => {
+			this.removeListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Registers a callback for when the value of an existing key changes.
+	 * @param callback The function to call with the key, its new value and its previous value
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onKeyChanged(callback: (key: K, value: V, previousValue: V) => void): () => void {
+		this.changeListeners.add(callback);
+		return () => {
+			this.changeListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Sets the value for a single key and notifies about the change, if any.
+	 */
+	private setEntry(key: K, value: V): void {
+		if (!this._entries.has(key)) {
+			this._entries.set(key, value);
+			this.notifyKeyAdded(key, value);
+			this.onEntriesChanged({ kind: 'add', key, value }, true);
+			return;
+		}
+
+		const previousValue = this._entries.get(key) as V;
+		if (!this.equalityFunc(previousValue, value)) {
+			this._entries.set(key, value);
+			this.changeListeners.forEach(listener => listener(key, value, previousValue));
+			this.onEntriesChanged({ kind: 'update', key, value, previousValue }, false);
+		}
+	}
+
+	/**
+	 * Notifies listeners about a key being added.
+	 */
+	private notifyKeyAdded(key: K, value: V): void {
+		if (this.addListeners.size > 0) {
+			this.addListeners.forEach(listener => listener(key, value));
+		}
+	}
+
+	/**
+	 * Called when an entry changes.
+	 * Readers of the key, of the keys if they changed, and of the whole map are invalidated immediately;
+	 * inside a batch, change listeners are notified once when the batch ends.
+	 * @param change The change that was made
+	 * @param keysChanged Whether a key was added or deleted
+	 */
+	private onEntriesChanged(change: MapChange<K, V>, keysChanged: boolean): void {
+		this.version++;
+		Instrumentation.origin(this, change.kind);
+
+		if (this.listeners.size > 0) {
+			this.pendingChanges.push(change);
+		}
+
+		Batch.run(() => {
+			this.keyDependents.notify(change.key);
+			if (keysChanged) {
+				this.keysPart.notifyDependents();
+			}
+			this.notifyDependents();
+
+			Batch.enqueue(this, () => {
+				if (this.listeners.size > 0) {
+					Scheduler.default.schedule(this, () => this.notifyListeners());
+				}
+			});
+		});
+	}
+
+	/**
+	 * Delivers the current entries, the entries at the previous delivery and the pending changes to every change listener.
+	 */
+	private notifyListeners(): void {
+		const entries = new Map(this._entries);
+		const previousEntries = this.deliveredEntries ?? entries;
+		const info: MapChangeInfo<K, V> = { source: this, changes: this.pendingChanges };
+
+		this.deliveredEntries = entries;
+		this.pendingChanges = [];
+
+		this.listeners.forEach(listener => listener(entries, previousEntries, info));
+	}
+
+	/**
+	 * Gets a number that changes whenever any entry of this map changes.
+	 */
+	getVersion(): number {
+		return this.version;
+	}
+
+	/**
+	 * Adds a dependent on the whole map.
+	 */
+	addDependent(dependent: IDependent): void {
+		this.dependents.add(dependent);
+	}
+
+	/**
+	 * Removes a dependent on the whole map.
+	 */
+	removeDependent(dependent: IDependent): void {
+		this.dependents.delete(dependent);
+	}
+
+	/**
+	 * Gets the nodes that currently read this map, its keys or any single key.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(new Set([
+			...this.dependents,
+			...this.keysPart.getDependents(),
+			...this.keyDependents.getDependents()
+		]));
+	}
+
+	/**
+	 * Gets the number of change, key added, key removed and key changed listeners registered on this map.
+	 */
+	getListenerCount(): number {
+		return this.listeners.size + this.addListeners.size + this.removeListeners.size + this.changeListeners.size;
+	}
+
+	/**
+	 * Notifies all dependents on the whole map that it has changed.
+	 */
+	notifyDependents(): void {
+		// Create a copy to avoid issues if collection is modified during iteration
+		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this, dependent);
+			dependent.invalidate();
+		});
+	}
+
+	/**
+	 * Releases the map, dropping all dependents and listeners and leaving its scope.
+	 */
+	dispose(): void {
+		this.dependents.clear();
+		this.keyDependents.clear();
+		this.keysPart.clear();
+		this.listeners.clear();
+		this.deliveredEntries = null;
+		this.pendingChanges = [];
+		this.addListeners.clear();
+		this.removeListeners.clear();
+		this.changeListeners.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+}
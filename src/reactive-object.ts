@@ -0,0 +1,266 @@
+import { IDependent, IInspectable, DependencyTracker, Batch, Instrumentation } from './core';
+import { KeyedDependents, TrackedPart } from './keyed-dependents';
+
+/**
+ * Options for making an object reactive.
+ */
+export interface ReactiveObjectOptions {
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 * Nested objects are named after the path they were first read through, such as `user.address`.
+	 */
+	name?: string;
+
+	/**
+	 * Only track the object's own properties; nested objects and arrays are returned as they are.
+	 */
+	shallow?: boolean;
+}
+
+/**
+ * The property that gives a reactive proxy's underlying object.
+ */
+const RAW = Symbol('raw');
+
+/**
+ * Array methods that write several properties in one call, run as a single batch without tracking their reads.
+ */
+const ARRAY_MUTATORS = new Set<PropertyKey>(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin']);
+
+/**
+ * The tracking node for each underlying object, shared by its deep and shallow proxies.
+ */
+const nodes: WeakMap<object, ReactiveObject> = new WeakMap();
+
+/**
+ * The deep and shallow proxies already created for each underlying object, so wrapping is stable.
+ */
+const deepProxies: WeakMap<object, object> = new WeakMap();
+const shallowProxies: WeakMap<object, object> = new WeakMap();
+
+/**
+ * Tracks reads and writes of the properties of one plain object or array made reactive with `reactive()`.
+ * Each property is its own dependency, created when it is first read inside a computation,
+ * and the set of keys (read by `Object.keys()`, `in` checks on missing keys and iteration) is another.
+ * Use `ReactiveObject.of()` to get the node for a proxy, for example to inspect it in the graph.
+ */
+export class ReactiveObject implements IInspectable {
+	private properties: KeyedDependents<PropertyKey> = new KeyedDependents<PropertyKey>(this);
+	private keysPart: TrackedPart = new TrackedPart(this, 'keys');
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	private constructor(name?: string) {
+		this.name = name;
+	}
+
+	/**
+	 * Gets the tracking node for a reactive proxy or the object underneath it.
+	 * @returns The node, or undefined if the object was never made reactive
+	 */
+	static of(value: object): ReactiveObject | undefined {
+		return nodes.get(toRaw(value));
+	}
+
+	/**
+	 * Gets the proxy for an object, creating it and its tracking node if needed.
+	 */
+	static wrap<T extends object>(target: T, options: ReactiveObjectOptions): T {
+		const proxies = options.shallow ? shallowProxies : deepProxies;
+		const existing = proxies.get(target);
+		if (existing) {
+			return existing as T;
+		}
+
+		let node = nodes.get(target);
+		if (!node) {
+			node = new ReactiveObject(options.name);
+			nodes.set(target, node);
+		}
+
+		const proxy = new Proxy(target, node.createHandler(options.shallow ?? false));
+		proxies.set(target, proxy);
+		return proxy as T;
+	}
+
+	/**
+	 * Gets the nodes that currently read any property or the keys of this object.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(new Set([...this.keysPart.getDependents(), ...this.properties.getDependents()]));
+	}
+
+	/**
+	 * Gets the number of listeners, always zero since reactive objects are only followed by reading them.
+	 */
+	getListenerCount(): number {
+		return 0;
+	}
+
+	/**
+	 * Creates the proxy handler that tracks reads and notifies writes for this object.
+	 */
+	private createHandler(shallow: boolean): ProxyHandler<object> {
+		return {
+			get: (target, key, receiver) => {
+				if (key === RAW) {
+					return target;
+				}
+
+				if (Array.isArray(target) && ARRAY_MUTATORS.has(key)) {
+					const method = Reflect.get(target, key) as (...args: unknown[]) => unknown;
+					return (...args: unknown[]) => Batch.run(() => DependencyTracker.untracked(() => method.apply(receiver, args)));
+				}
+
+				this.properties.track(key);
+				const value = Reflect.get(target, key, receiver);
+
+				if (!shallow && isWrappable(value)) {
+					return ReactiveObject.wrap(value, { name: this.childName(key) });
+				}
+				return value;
+			},
+
+			has: (target, key) => {
+				this.properties.track(key);
+				return Reflect.has(target, key);
+			},
+
+			ownKeys: target => {
+				this.keysPart.track();
+				return Reflect.ownKeys(target);
+			},
+
+			set: (target, key, value) => {
+				const raw = toRaw(value);
+				const hadKey = Object.prototype.hasOwnProperty.call(target, key);
+				const previousValue = Reflect.get(target, key);
+				const previousLength = Array.isArray(target) ? target.length : 0;
+
+				if (!Reflect.set(target, key, raw)) {
+					return false;
+				}
+
+				if (!hadKey || !Object.is(previousValue, raw)) {
+					this.onPropertiesChanged(hadKey ? 'set' : 'add', () => {
+						this.properties.notify(key);
+						if (!hadKey) {
+							this.keysPart.notifyDependents();
+						}
+						if (Array.isArray(target) && target.length !== previousLength) {
+							this.onLengthChanged(target.length, previousLength);
+						}
+					});
+				}
+				return true;
+			},
+
+			deleteProperty: (target, key) => {
+				const hadKey = Object.prototype.hasOwnProperty.call(target, key);
+				if (!Reflect.deleteProperty(target, key)) {
+					return false;
+				}
+
+				if (hadKey) {
+					this.onPropertiesChanged('delete', () => {
+						this.properties.notify(key);
+						this.keysPart.notifyDependents();
+					});
+				}
+				return true;
+			}
+		};
+	}
+
+	/**
+	 * Called when an array's length changes, invalidating readers of the length, the keys and any removed index.
+	 */
+	private onLengthChanged(length: number, previousLength: number): void {
+		this.properties.notify('length');
+		this.keysPart.notifyDependents();
+		for (let index = length; index < previousLength; index++) {
+			this.properties.notify(String(index));
+		}
+	}
+
+	/**
+	 * Reports a write and runs the notifications it causes as one batch.
+	 */
+	private onPropertiesChanged(kind: string, notify: () => void): void {
+		Instrumentation.origin(this, kind);
+		Batch.run(notify);
+	}
+
+	/**
+	 * Gets the debug name for a nested object read through the specified property.
+	 */
+	private childName(key: PropertyKey): string | undefined {
+		return this.name !== undefined ? `${this.name}.${String(key)}` : undefined;
+	}
+}
+
+/**
+ * Checks whether a value is a plain object or array that can be made reactive.
+ */
+function isWrappable(value: unknown): value is object {
+	if (value === null || typeof value !== 'object') {
+		return false;
+	}
+
+	const prototype = Object.getPrototypeOf(value);
+	return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Wraps a plain object or array in a proxy that tracks property reads and notifies property writes.
+ * Nested objects and arrays are wrapped when they are read, so a computed reading `obj.a.b`
+ * only depends on `a` of `obj` and `b` of `obj.a`, and writes at any depth notify their readers.
+ * Wrapping the same object again returns the same proxy.
+ *
+ * @example
+ * ```typescript
+ * const user = reactive({ name: 'Alex', address: { city: 'Paris' } });
+ * const city = new Computed(() => user.address.city);
+ *
+ * user.name = 'Sam';              // city is not recomputed
+ * user.address.city = 'London';   // city becomes 'London'
+ * ```
+ */
+export function reactive<T extends object>(target: T, options: ReactiveObjectOptions = {}): T {
+	if (!isWrappable(target)) {
+		throw new Error("Only plain objects and arrays can be made reactive.");
+	}
+	return ReactiveObject.wrap(toRaw(target), options);
+}
+
+/**
+ * Wraps a plain object or array so that only its own properties are tracked.
+ * Nested objects are returned as they are, so replacing them notifies readers but mutating them does not.
+ */
+export function shallowReactive<T extends object>(target: T, options: ReactiveObjectOptions = {}): T {
+	return reactive(target, { ...options, shallow: true });
+}
+
+/**
+ * Gets the object underneath a reactive proxy, or the value itself if it is not a proxy.
+ * Reading and writing the raw object is not tracked and notifies nobody.
+ */
+export function toRaw<T>(value: T): T {
+	if (value !== null && typeof value === 'object') {
+		const raw = (value as { [RAW]?: T })[RAW];
+		if (raw !== undefined) {
+			return raw;
+		}
+	}
+	return value;
+}
+
+/**
+ * Checks whether a value is a proxy created by `reactive()` or `shallowReactive()`.
+ */
+export function isReactive(value: unknown): boolean {
+	return value !== null && typeof value === 'object' && toRaw(value) !== value;
+}
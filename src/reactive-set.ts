@@ -0,0 +1,472 @@
+import { IDependent, IDisposable, IInspectable, IObservable, IReactive, ChangeInfo, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { Scope } from './scope';
+import { Scheduler } from './scheduler';
+import { KeyedDependents, TrackedPart } from './keyed-dependents';
+import { addSubscriber, removeSubscriber } from './graph';
+
+/**
+ * Options for creating a ReactiveSet.
+ */
+export interface ReactiveSetOptions {
+	/**
+	 * The scope that owns the set and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+}
+
+/**
+ * Describes one member being added to or removed from a ReactiveSet.
+ */
+export interface SetChange<T> {
+	readonly kind: 'add' | 'delete';
+	readonly item: T;
+}
+
+/**
+ * Describes a delivered change to a ReactiveSet.
+ */
+export interface SetChangeInfo<T> extends ChangeInfo {
+	/**
+	 * Every member added or removed since the previous delivery, in the order it happened.
+	 */
+	readonly changes: SetChange<T>[];
+}
+
+/**
+ * Represents a reactive set that tracks readers per member.
+ * A computed that reads `set.has(x)` is only invalidated when `x` is added or removed;
+ * `size` is invalidated by any membership change, as is reading the whole set with `use()` or `values()`.
+ * Members are compared with `===`, like a native Set, so members are never cloned.
+ *
+ * @example
+ * ```typescript
+ * const selected = new ReactiveSet<number>();
+ * const isFirstSelected = new Computed(() => selected.has(1));
+ *
+ * selected.add(2);    // isFirstSelected is not recomputed
+ * selected.toggle(1); // isFirstSelected becomes true
+ * ```
+ */
+export class ReactiveSet<T> implements IReactive<Set<T>>, IDisposable, IInspectable {
+	private members: Set<T>;
+	private dependents: Set<IDependent> = new Set<IDependent>();
+	private memberDependents: KeyedDependents<T> = new KeyedDependents<T>(this);
+	private sizePart: TrackedPart = new TrackedPart(this, 'size');
+	private listeners: Set<ChangeListener<Set<T>, SetChangeInfo<T>>> = new Set();
+	private deliveredMembers: Set<T> | null = null;
+	private pendingChanges: SetChange<T>[] = [];
+	private addListeners: Set<(item: T) => void> = new Set();
+	private removeListeners: Set<(item: T) => void> = new Set();
+	private sources: ReactiveSet<T>[] = [];
+	private detachFromSources: Array<() => void> = [];
+	private _isDerived: boolean = false;
+	private scope: Scope | null;
+	private version: number = 0;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Creates a new reactive set with the given initial members.
+	 */
+	constructor(initialMembers?: Iterable<T>, options: ReactiveSetOptions = {}) {
+		this.members = new Set(initialMembers ?? []);
+		this.name = options.name;
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+	}
+
+	/**
+	 * Gets a copy of the current members without tracking dependencies.
+	 */
+	get value(): Set<T> {
+		return this.peek();
+	}
+
+	/**
+	 * Gets whether this set was created by union(), intersection() or difference(), and so only changes with its sources.
+	 */
+	get isDerived(): boolean {
+		return this._isDerived;
+	}
+
+	/**
+	 * Replaces all members with those of the given set.
+	 * Only members that were added or removed notify their readers.
+	 * @param newMembers The new members
+	 * @throws Error If the set is derived from other sets
+	 */
+	set(newMembers: Set<T>): void {
+		this.assertWritable();
+		Batch.run(() => {
+			Array.from(this.members).forEach(item => {
+				if (!newMembers.has(item)) {
+					this.deleteMember(item);
+				}
+			});
+			newMembers.forEach(item => this.addMember(item));
+		});
+	}
+
+	/**
+	 * Gets a copy of the current members without tracking dependencies.
+	 */
+	peek(): Set<T> {
+		return new Set(this.members);
+	}
+
+	/**
+	 * Gets a copy of the current members and tracks the whole set as a dependency.
+	 */
+	use(): Set<T> {
+		DependencyTracker.trackDependency(this);
+		return new Set(this.members);
+	}
+
+	/**
+	 * Gets whether the item is a member and tracks that item as a dependency.
+	 */
+	has(item: T): boolean {
+		this.memberDependents.track(item);
+		return this.members.has(item);
+	}
+
+	/**
+	 * Gets the number of members and tracks it as a dependency.
+	 */
+	get size(): number {
+		this.sizePart.track();
+		return this.members.size;
+	}
+
+	/**
+	 * Gets the members and tracks the whole set as a dependency.
+	 */
+	values(): T[] {
+		DependencyTracker.trackDependency(this);
+		return Array.from(this.members);
+	}
+
+	/**
+	 * Adds an item to the set.
+	 * @returns Whether the item was not already a member
+	 * @throws Error If the set is derived from other sets
+	 */
+	add(item: T): boolean {
+		this.assertWritable();
+		return this.addMember(item);
+	}
+
+	/**
+	 * Removes an item from the set.
+	 * @returns Whether the item was a member
+	 * @throws Error If the set is derived from other sets
+	 */
+	delete(item: T): boolean {
+		this.assertWritable();
+		return this.deleteMember(item);
+	}
+
+	/**
+	 * Adds the item if it is not a member, or removes it if it is.
+	 * @param force If given, adds the item when true and removes it when false
+	 * @returns Whether the item is a member afterwards
+	 * @throws Error If the set is derived from other sets
+	 */
+	toggle(item: T, force?: boolean): boolean {
+		this.assertWritable();
+		return this.toggleMember(item, force);
+	}
+
+	/**
+	 * Removes all members from the set.
+	 * @throws Error If the set is derived from other sets
+	 */
+	clear(): void {
+		this.assertWritable();
+		if (this.members.size > 0) {
+			Batch.run(() => {
+				Array.from(this.members).forEach(item => this.deleteMember(item));
+			});
+		}
+	}
+
+	/**
+	 * Adds an item, whether or not the set is derived.
+	 */
+	private addMember(item: T): boolean {
+		if (this.members.has(item)) {
+			return false;
+		}
+
+		this.members.add(item);
+		this.addListeners.forEach(listener => listener(item));
+		this.onMembersChanged({ kind: 'add', item });
+		return true;
+	}
+
+	/**
+	 * Removes an item, whether or not the set is derived.
+	 */
+	private deleteMember(item: T): boolean {
+		if (!this.members.has(item)) {
+			return false;
+		}
+
+		this.members.delete(item);
+		this.removeListeners.forEach(listener => listener(item));
+		this.onMembersChanged({ kind: 'delete', item });
+		return true;
+	}
+
+	/**
+	 * Adds or removes an item, whether or not the set is derived.
+	 */
+	private toggleMember(item: T, force?: boolean): boolean {
+		const shouldContain = force ?? !this.members.has(item);
+		if (shouldContain) {
+			this.addMember(item);
+		} else {
+			this.deleteMember(item);
+		}
+		return shouldContain;
+	}
+
+	/**
+	 * Throws if the set may only change with its sources.
+	 */
+	private assertWritable(): void {
+		if (this._isDerived) {
+			throw new Error("Cannot change a derived set directly. Its members follow the sets it was derived from.");
+		}
+	}
+
+	/**
+	 * Creates a set of the items that are members of this set or the other, kept up to date as either changes.
+	 * The result is read-only: its members only change with the sources.
+	 */
+	union(other: ReactiveSet<T>, options: ReactiveSetOptions = {}): ReactiveSet<T> {
+		return ReactiveSet.derive([this, other], item => this.members.has(item) || other.members.has(item), options);
+	}
+
+	/**
+	 * Creates a set of the items that are members of both this set and the other, kept up to date as either changes.
+	 * The result is read-only: its members only change with the sources.
+	 */
+	intersection(other: ReactiveSet<T>, options: ReactiveSetOptions = {}): ReactiveSet<T> {
+		return ReactiveSet.derive([this, other], item => this.members.has(item) && other.members.has(item), options);
+	}
+
+	/**
+	 * Creates a set of the items that are members of this set but not the other, kept up to date as either changes.
+	 * The result is read-only: its members only change with the sources.
+	 */
+	difference(other: ReactiveSet<T>, options: ReactiveSetOptions = {}): ReactiveSet<T> {
+		return ReactiveSet.derive([this, other], item => this.members.has(item) && !other.members.has(item), options);
+	}
+
+	/**
+	 * Registers a callback for when the members change.
+	 * @param callback The function to call with a copy of the new members, the members at the previous delivery
+	 * and the changes made since then
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onChange(callback: ChangeListener<Set<T>, SetChangeInfo<T>>): () => void {
+		if (this.listeners.size === 0) {
+			this.deliveredMembers = new Set(this.members);
+		}
+
+		this.listeners.add(callback);
+		return () => {
+			this.listeners.delete(callback);
+			if (this.listeners.size === 0) {
+				this.deliveredMembers = null;
+				this.pendingChanges = [];
+			}
+		};
+	}
+
+	/**
+	 * Registers a callback for when an item is added to the set.
+	 * @param callback The function to call with the added item
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onAdded(callback: (item: T) => void): () => void {
+		this.addListeners.add(callback);
+		return () => {
+			this.addListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Registers a callback for when an item is removed from the set.
+	 * @param callback The function to call with the removed item
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onRemoved(callback: (item: T) => void): () => void {
+		this.removeListeners.add(callback);
+		return () => {
+			this.removeListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Creates a set whose members are decided per item by a predicate over the sources.
+	 * Whenever an item is added to or removed from a source, only that item is re-checked.
+	 */
+	private static derive<T>(sources: ReactiveSet<T>[], contains: (item: T) => boolean, options: ReactiveSetOptions): ReactiveSet<T> {
+		const candidates = new Set<T>();
+		sources.forEach(source => source.members.forEach(item => candidates.add(item)));
+
+		const derived = new ReactiveSet<T>(Array.from(candidates).filter(contains), options);
+		const update = (item: T) => {
+			derived.toggleMember(item, contains(item));
+		};
+
+		derived.sources = sources;
+		derived._isDerived = true;
+		sources.forEach(source => {
+			const removeAdded = source.onAdded(update);
+			const removeRemoved = source.onRemoved(update);
+			addSubscriber(source, derived);
+
+			derived.detachFromSources.push(() => {
+				removeAdded();
+				removeRemoved();
+				removeSubscriber(source, derived);
+			});
+		});
+
+		return derived;
+	}
+
+	/**
+	 * Called when a member is added or removed.
+	 * Readers of the member, of the size and of the whole set are invalidated immediately;
+	 * inside a batch, change listeners are notified once when the batch ends.
+	 * @param change The change that was made
+	 */
+	private onMembersChanged(change: SetChange<T>): void {
+		this.version++;
+		Instrumentation.origin(this, change.kind);
+
+		if (this.listeners.size > 0) {
+			this.pendingChanges.push(change);
+		}
+
+		Batch.run(() => {
+			this.memberDependents.notify(change.item);
+			this.sizePart.notifyDependents();
+			this.notifyDependents();
+
+			Batch.enqueue(this, () => {
+				if (this.listeners.size > 0) {
+					Scheduler.default.schedule(this, () => this.notifyListeners());
+				}
+			});
+		});
+	}
+
+	/**
+	 * Delivers the current members, the members at the previous delivery and the pending changes to every change listener.
+	 */
+	private notifyListeners(): void {
+		const members = new Set(this.members);
+		const previousMembers = this.deliveredMembers ?? members;
+		const info: SetChangeInfo<T> = { source: this, changes: this.pendingChanges };
+
+		this.deliveredMembers = members;
+		this.pendingChanges = [];
+
+		this.listeners.forEach(listener => listener(members, previousMembers, info));
+	}
+
+	/**
+	 * Gets a number that changes whenever the members of this set change.
+	 */
+	getVersion(): number {
+		return this.version;
+	}
+
+	/**
+	 * Adds a dependent on the whole set.
+	 */
+	addDependent(dependent: IDependent): void {
+		this.dependents.add(dependent);
+	}
+
+	/**
+	 * Removes a dependent on the whole set.
+	 */
+	removeDependent(dependent: IDependent): void {
+		this.dependents.delete(dependent);
+	}
+
+	/**
+	 * Gets the sets this set is derived from, if it was created by `union`, `intersection` or `difference`.
+	 */
+	getDependencies(): IObservable[] {
+		return [...this.sources];
+	}
+
+	/**
+	 * Gets the nodes that currently read this set, its size or any single member.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(new Set([
+			...this.dependents,
+			...this.sizePart.getDependents(),
+			...this.memberDependents.getDependents()
+		]));
+	}
+
+	/**
+	 * Gets the number of change, added and removed listeners registered on this set.
+	 */
+	getListenerCount(): number {
+		return this.listeners.size + this.addListeners.size + this.removeListeners.size;
+	}
+
+	/**
+	 * Notifies all dependents on the whole set that it has changed.
+	 */
+	notifyDependents(): void {
+		// Create a copy to avoid issues if collection is modified during iteration
+		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this, dependent);
+			dependent.invalidate();
+		});
+	}
+
+	/**
+	 * Releases the set, dropping all dependents and listeners, detaching from the sets it is derived from and leaving its scope.
+	 */
+	dispose(): void {
+		this.detachFromSources.forEach(detach => detach());
+		this.detachFromSources = [];
+		this.sources = [];
+
+		this.dependents.clear();
+		this.memberDependents.clear();
+		this.sizePart.clear();
+		this.listeners.clear();
+		this.deliveredMembers = null;
+		this.pendingChanges = [];
+		this.addListeners.clear();
+		this.removeListeners.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+}
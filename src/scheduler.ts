@@ -0,0 +1,161 @@
+import { Batch, CircularDependencyError } from './core';
+
+/**
+ * Decides when listener deliveries run.
+ */
+export interface IScheduler {
+	/**
+	 * Schedules a delivery for the specified owner.
+	 * A delivery scheduled for an owner that already has one pending replaces it, so only the latest runs.
+	 */
+	schedule(owner: object, task: () => void): void;
+
+	/**
+	 * Runs all pending deliveries now.
+	 */
+	flush(): void;
+}
+
+/**
+ * Runs every delivery immediately.
+ */
+class SyncScheduler implements IScheduler {
+	schedule(owner: object, task: () => void): void {
+		task();
+	}
+
+	flush(): void {
+		// Nothing is ever pending
+	}
+}
+
+/**
+ * Queues deliveries, coalescing them per owner, and asks a strategy function to flush the queue later.
+ */
+class QueueScheduler implements IScheduler {
+	private pending: Map<object, () => void> = new Map();
+	private isRequested: boolean = false;
+	private requestFlush: ((flush: () => void) => void) | null;
+
+	/**
+	 * @param requestFlush Arranges for the given function to be called later, or null to only flush manually
+	 */
+	constructor(requestFlush: ((flush: () => void) => void) | null) {
+		this.requestFlush = requestFlush;
+	}
+
+	schedule(owner: object, task: () => void): void {
+		this.pending.set(owner, task);
+
+		if (this.requestFlush && !this.isRequested) {
+			this.isRequested = true;
+			this.requestFlush(() => this.flush());
+		}
+	}
+
+	/**
+	 * Runs pending deliveries, including any scheduled by the deliveries themselves.
+	 * A delivery that throws does not stop the others; the first error is rethrown at the end.
+	 * @throws CircularDependencyError If deliveries keep scheduling more deliveries without settling
+	 */
+	flush(): void {
+		this.isRequested = false;
+		let failure: { error: unknown } | null = null;
+		let passes = 0;
+
+		while (this.pending.size > 0) {
+			if (++passes > Batch.maxRepeats) {
+				const owners = Array.from(this.pending.keys());
+				this.pending.clear();
+				throw new CircularDependencyError([...owners, owners[0]]);
+			}
+
+			const tasks = Array.from(this.pending.values());
+			this.pending.clear();
+
+			for (const task of tasks) {
+				try {
+					task();
+				} catch (error) {
+					failure = failure ?? { error };
+				}
+			}
+		}
+
+		if (failure) {
+			throw failure.error;
+		}
+	}
+}
+
+/**
+ * Built-in schedulers, and the default used for onChange listeners of State, Computed and ReactiveList.
+ *
+ * @example
+ * ```typescript
+ * // Deliver all listeners once per microtask, with the latest values
+ * Scheduler.default = Scheduler.microtask();
+ *
+ * // Or only for one observer
+ * Observer.watch(position, render, { scheduler: Scheduler.frame() });
+ * ```
+ */
+export class Scheduler {
+	/**
+	 * Runs every delivery immediately, inside the change that caused it.
+	 */
+	static readonly sync: IScheduler = new SyncScheduler();
+
+	private static _default: IScheduler = Scheduler.sync;
+
+	/**
+	 * Gets or sets the scheduler used to deliver onChange and onError listeners. Defaults to Scheduler.sync.
+	 */
+	static get default(): IScheduler {
+		return this._default;
+	}
+
+	static set default(scheduler: IScheduler) {
+		this._default = scheduler;
+	}
+
+	/**
+	 * Creates a scheduler that delivers at the end of the current microtask.
+	 */
+	static microtask(): IScheduler {
+		return new QueueScheduler(flush => {
+			Promise.resolve().then(flush);
+		});
+	}
+
+	/**
+	 * Creates a scheduler that delivers before the next animation frame,
+	 * falling back to a 16ms timer where requestAnimationFrame is unavailable.
+	 */
+	static frame(): IScheduler {
+		return new QueueScheduler(flush => {
+			if (typeof requestAnimationFrame === 'function') {
+				requestAnimationFrame(() => flush());
+			} else {
+				setTimeout(flush, 16);
+			}
+		});
+	}
+
+	/**
+	 * Creates a scheduler that delivers after the given delay.
+	 * @param delay The delay in milliseconds
+	 */
+	static timer(delay: number = 0): IScheduler {
+		return new QueueScheduler(flush => {
+			setTimeout(flush, delay);
+		});
+	}
+
+	/**
+	 * Creates a scheduler that only delivers when flush() is called, for deterministic tests.
+	 */
+	static manual(): IScheduler {
+		return new QueueScheduler(null);
+	}
+}
@@ -0,0 +1,114 @@
+import { IDisposable } from './core';
+
+/**
+ * Owns a group of reactive nodes and cleanup callbacks so they can be torn down together.
+ * Scopes can be nested; disposing a scope disposes its children first.
+ *
+ * @example
+ * ```typescript
+ * const scope = new Scope();
+ * const count = new State(0, { scope });
+ * const doubled = new Computed(() => count.use() * 2, { scope });
+ * Observer.watch(doubled, value => console.log(value), { scope });
+ *
+ * // Later, to tear everything down:
+ * scope.dispose();
+ * ```
+ */
+export class Scope implements IDisposable {
+	private parent: Scope | null;
+	private children: Set<Scope> = new Set<Scope>();
+	private disposables: Set<IDisposable> = new Set<IDisposable>();
+	private cleanups: Array<() => void> = [];
+	private _isDisposed: boolean = false;
+
+	/**
+	 * Creates a new scope, optionally owned by a parent scope.
+	 */
+	constructor(parent?: Scope) {
+		this.parent = parent ?? null;
+		if (this.parent) {
+			this.parent.adoptChild(this);
+		}
+	}
+
+	/**
+	 * Gets whether this scope has been disposed.
+	 */
+	get isDisposed(): boolean {
+		return this._isDisposed;
+	}
+
+	/**
+	 * Creates a child scope that is disposed along with this scope.
+	 */
+	createChild(): Scope {
+		return new Scope(this);
+	}
+
+	/**
+	 * Takes ownership of a disposable, disposing it when this scope is disposed.
+	 * @returns The disposable, for chaining
+	 * @throws Error If the scope has already been disposed
+	 */
+	add<D extends IDisposable>(disposable: D): D {
+		this.assertNotDisposed();
+		this.disposables.add(disposable);
+		return disposable;
+	}
+
+	/**
+	 * Releases ownership of a disposable without disposing it.
+	 */
+	remove(disposable: IDisposable): void {
+		this.disposables.delete(disposable);
+	}
+
+	/**
+	 * Registers a callback to run when this scope is disposed.
+	 * @throws Error If the scope has already been disposed
+	 */
+	onCleanup(callback: () => void): void {
+		this.assertNotDisposed();
+		this.cleanups.push(callback);
+	}
+
+	/**
+	 * Disposes child scopes, then owned disposables, then cleanup callbacks, each in reverse order of creation.
+	 */
+	dispose(): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this._isDisposed = true;
+
+		Array.from(this.children).reverse().forEach(child => child.dispose());
+		this.children.clear();
+
+		Array.from(this.disposables).reverse().forEach(disposable => disposable.dispose());
+		this.disposables.clear();
+
+		const cleanups = this.cleanups;
+		this.cleanups = [];
+		for (let i = cleanups.length - 1; i >= 0; i--) {
+			cleanups[i]();
+		}
+
+		if (this.parent) {
+			this.parent.children.delete(this);
+			this.parent = null;
+		}
+	}
+
+	private adoptChild(child: Scope): void {
+		this.assertNotDisposed();
+		this.children.add(child);
+	}
+
+	private assertNotDisposed(): void {
+		if (this._isDisposed) {
+			throw new Error("Cannot add to a scope that has already been disposed.");
+		}
+	}
+}
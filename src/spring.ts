@@ -0,0 +1,519 @@
+import { IDependent, IDisposable, IInspectable, IObservable, IReactive, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { State } from './state';
+import { Computed } from './computed';
+import { Scope } from './scope';
+import { IClock, Clock } from './clock';
+import { addSubscriber, removeSubscriber } from './graph';
+
+/**
+ * A value a spring can animate: a number, an array of numbers, or a vector-like object whose numeric fields are animated.
+ * Other fields of an object are copied from the goal.
+ */
+export type SpringValue = number | readonly number[] | object;
+
+/**
+ * Options for creating a Spring.
+ */
+export interface SpringOptions {
+	/**
+	 * How quickly the spring moves towards its goal, as an angular frequency in radians per second. Defaults to 10.
+	 * A reactive value is read on every step, so changes take effect straight away.
+	 */
+	speed?: number | IReactive<number>;
+
+	/**
+	 * How quickly the spring stops oscillating: below 1 it overshoots and bounces, 1 settles as fast as possible
+	 * without overshooting, and above 1 creeps towards the goal. Defaults to 1.
+	 * A reactive value is read on every step, so changes take effect straight away.
+	 */
+	damping?: number | IReactive<number>;
+
+	/**
+	 * The clock that steps the spring while it is moving. Defaults to Clock.default.
+	 */
+	clock?: IClock;
+
+	/**
+	 * The scope that owns the spring and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+}
+
+/**
+ * Below this distance from the goal and this speed, a spring snaps to its goal and stops.
+ */
+const REST_EPSILON = 0.0001;
+
+/**
+ * Represents a value that follows a goal smoothly, moving like a damped spring.
+ * The spring steps on its clock only while it is moving, and starts again whenever the goal changes.
+ *
+ * @example
+ * ```typescript
+ * const target = new State({ x: 0, y: 0 });
+ * const position = new Spring(target, { speed: 20, damping: 0.6 });
+ *
+ * Hydrate(sprite, { position });
+ * target.set({ x: 100, y: 50 }); // the sprite glides over and bounces a little
+ * ```
+ */
+export class Spring<T extends SpringValue> implements IReactive<T>, IDisposable, IInspectable {
+	private goal: IReactive<T>;
+	private speed: number | IReactive<number>;
+	private damping: number | IReactive<number>;
+	private clock: IClock;
+	private goalValue: T;
+	private layout: string;
+	private target: number[];
+	private position: number[];
+	private currentVelocity: number[];
+	private stopTicking: (() => void) | null = null;
+	private unsubscribe: (() => void) | null;
+	private scope: Scope | null;
+	private _isDisposed: boolean = false;
+
+	private _value: State<T>;
+	private _velocity: State<T>;
+
+	/**
+	 * The current velocity of the spring, in the same shape as its value, in units per second.
+	 */
+	readonly velocity: Computed<T>;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * Creates a spring that starts at rest at the current value of its goal.
+	 * @param goal The reactive value to follow
+	 * @param options The speed, damping and clock of the spring
+	 * @throws Error If the goal is not a number, an array of numbers or an object with numeric fields
+	 */
+	constructor(goal: IReactive<T>, options: SpringOptions = {}) {
+		this.goal = goal;
+		this.speed = options.speed ?? 10;
+		this.damping = options.damping ?? 1;
+		this.clock = options.clock ?? Clock.default;
+		this.name = options.name;
+
+		this.goalValue = goal.peek();
+		this.layout = layoutOf(this.goalValue);
+		this.target = pack(this.goalValue);
+		this.position = [...this.target];
+		this.currentVelocity = this.target.map(() => 0);
+
+		this._value = new State(this.goalValue, { owner: this });
+		this._velocity = new State(unpack(this.goalValue, this.currentVelocity), { owner: this });
+		this.velocity = new Computed(() => this._velocity.use(), { owner: this });
+
+		this.unsubscribe = goal.onChange(value => this.onGoalChanged(value));
+		this.getDependencies().forEach(source => addSubscriber(source, this));
+
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+	}
+
+	/**
+	 * Gets the current position of the spring without tracking dependencies.
+	 */
+	get value(): T {
+		return this._value.peek();
+	}
+
+	/**
+	 * Sets the current value.
+	 * @throws Error Springs follow their goal; use setPosition() to move one
+	 */
+	set(newValue: T): void {
+		throw new Error("Cannot set the value of a spring. Set its goal, or use setPosition() to move it.");
+	}
+
+	/**
+	 * Gets the current position of the spring without tracking dependencies.
+	 */
+	peek(): T {
+		return this._value.peek();
+	}
+
+	/**
+	 * Gets the current position of the spring and tracks this as a dependency.
+	 */
+	use(): T {
+		DependencyTracker.trackDependency(this);
+		return this._value.peek();
+	}
+
+	/**
+	 * Gets whether the spring is moving, rather than resting at its goal.
+	 */
+	get isAnimating(): boolean {
+		return this.stopTicking !== null;
+	}
+
+	/**
+	 * Gets whether the value is derived from other nodes, which is always the case for a spring, as it follows its goal.
+	 */
+	get isDerived(): boolean {
+		return true;
+	}
+
+	/**
+	 * Gets whether the spring has been disposed.
+	 */
+	get isDisposed(): boolean {
+		return this._isDisposed;
+	}
+
+	/**
+	 * Moves the spring to a position instantly, keeping its velocity; it then springs back towards the goal.
+	 * @param position The new position, in the same shape as the goal
+	 * @throws Error If the position does not have the same shape as the goal
+	 */
+	setPosition(position: T): void {
+		this.position = this.packLike(position);
+		this.publish('setPosition');
+		this.start();
+	}
+
+	/**
+	 * Sets the velocity of the spring instantly.
+	 * @param velocity The new velocity in units per second, in the same shape as the goal
+	 * @throws Error If the velocity does not have the same shape as the goal
+	 */
+	setVelocity(velocity: T): void {
+		this.currentVelocity = this.packLike(velocity);
+		this.publish('setVelocity');
+		this.start();
+	}
+
+	/**
+	 * Adds to the velocity of the spring instantly, like an impulse.
+	 * @param velocity The velocity to add in units per second, in the same shape as the goal
+	 * @throws Error If the velocity does not have the same shape as the goal
+	 */
+	addVelocity(velocity: T): void {
+		const added = this.packLike(velocity);
+		this.currentVelocity = this.currentVelocity.map((value, i) => value + added[i]);
+		this.publish('addVelocity');
+		this.start();
+	}
+
+	/**
+	 * Advances the spring by a step of time, as its clock does on every tick.
+	 * @param deltaTime The time to advance by, in seconds
+	 */
+	step(deltaTime: number): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		const speed = Math.max(0, read(this.speed));
+		const damping = Math.max(0, read(this.damping));
+		const [posPos, posVel, velPos, velVel] = springCoefficients(deltaTime, speed, damping);
+
+		let isResting = true;
+		for (let i = 0; i < this.position.length; i++) {
+			const displacement = this.position[i] - this.target[i];
+			const velocity = this.currentVelocity[i];
+			const nextDisplacement = displacement * posPos + velocity * posVel;
+			const nextVelocity = displacement * velPos + velocity * velVel;
+
+			this.position[i] = this.target[i] + nextDisplacement;
+			this.currentVelocity[i] = nextVelocity;
+
+			if (Math.abs(nextDisplacement) > REST_EPSILON || Math.abs(nextVelocity) > REST_EPSILON) {
+				isResting = false;
+			}
+		}
+
+		if (isResting) {
+			this.snapToGoal('step');
+		} else {
+			this.publish('step');
+		}
+	}
+
+	/**
+	 * Registers a callback for when the position changes, on every step while the spring is moving.
+	 * @param callback The function to call with the new position, the previous position and details of the change
+	 * @returns A function that can be called to unregister the callback
+	 */
+	onChange(callback: ChangeListener<T>): () => void {
+		return this._value.onChange((value, previousValue) => callback(value, previousValue, { source: this }));
+	}
+
+	/**
+	 * Adds a dependent to this spring.
+	 */
+	addDependent(dependent: IDependent): void {
+		this._value.addDependent(dependent);
+	}
+
+	/**
+	 * Removes a dependent from this spring.
+	 */
+	removeDependent(dependent: IDependent): void {
+		this._value.removeDependent(dependent);
+	}
+
+	/**
+	 * Notifies all dependents that this spring has moved.
+	 */
+	notifyDependents(): void {
+		this._value.notifyDependents();
+	}
+
+	/**
+	 * Gets the goal, and the speed and damping if they are reactive.
+	 */
+	getDependencies(): IObservable[] {
+		return [this.goal, this.speed, this.damping].filter((source): source is IReactive<any> => typeof source === 'object');
+	}
+
+	/**
+	 * Gets the nodes that currently read this spring.
+	 */
+	getDependents(): IDependent[] {
+		return this._value.getDependents();
+	}
+
+	/**
+	 * Gets the number of change listeners registered on this spring.
+	 */
+	getListenerCount(): number {
+		return this._value.getListenerCount();
+	}
+
+	/**
+	 * Gets a number that changes whenever the spring moves.
+	 */
+	getVersion(): number {
+		return this._value.getVersion();
+	}
+
+	/**
+	 * Stops the spring where it is, stops following the goal, drops dependents and listeners, and leaves its scope.
+	 */
+	dispose(): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this._isDisposed = true;
+		this.stop();
+
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		this.getDependencies().forEach(source => removeSubscriber(source, this));
+
+		this._value.dispose();
+		this._velocity.dispose();
+		this.velocity.dispose();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	/**
+	 * Starts moving towards a new goal. A goal of a different shape is jumped to, as there is no way to move between them.
+	 */
+	private onGoalChanged(goal: T): void {
+		if (this._isDisposed) {
+			return;
+		}
+
+		this.goalValue = goal;
+		this.target = pack(goal);
+
+		const layout = layoutOf(goal);
+		if (layout !== this.layout) {
+			this.layout = layout;
+			this.snapToGoal('jump');
+			return;
+		}
+
+		this.start();
+	}
+
+	/**
+	 * Places the spring exactly at its goal, at rest.
+	 * @param kind How the spring came to move, as reported to instrumentation
+	 */
+	private snapToGoal(kind: string): void {
+		this.position = [...this.target];
+		this.currentVelocity = this.target.map(() => 0);
+		this.stop();
+		this.publish(kind);
+	}
+
+	/**
+	 * Updates the reactive position and velocity from the numbers being animated.
+	 * @param kind How the spring came to move, such as `'step'`, as reported to instrumentation
+	 */
+	private publish(kind: string): void {
+		Instrumentation.origin(this, kind);
+		Batch.run(() => {
+			this._value.set(unpack(this.goalValue, this.position));
+			this._velocity.set(unpack(this.goalValue, this.currentVelocity));
+		});
+	}
+
+	/**
+	 * Subscribes to the clock, unless the spring is already moving or disposed.
+	 */
+	private start(): void {
+		if (!this.stopTicking && !this._isDisposed) {
+			this.stopTicking = this.clock.subscribe(deltaTime => this.step(deltaTime));
+		}
+	}
+
+	/**
+	 * Unsubscribes from the clock.
+	 */
+	private stop(): void {
+		if (this.stopTicking) {
+			this.stopTicking();
+			this.stopTicking = null;
+		}
+	}
+
+	/**
+	 * Packs a position or velocity given by the caller, checking it has the shape of the goal.
+	 */
+	private packLike(value: T): number[] {
+		if (layoutOf(value) !== this.layout) {
+			throw new Error("The value must have the same shape as the goal of the spring.");
+		}
+		return pack(value);
+	}
+}
+
+/**
+ * Reads a number that may be given as a reactive value, without tracking it.
+ */
+function read(value: number | IReactive<number>): number {
+	return typeof value === 'number' ? value : value.peek();
+}
+
+/**
+ * Gets the names of the numeric fields of a vector-like object, in order.
+ */
+function numericKeys(value: object): string[] {
+	return Object.keys(value).filter(key => typeof (value as Record<string, unknown>)[key] === 'number');
+}
+
+/**
+ * Describes the shape of a value, so that values that can be animated into each other have the same layout.
+ * @throws Error If the value cannot be animated
+ */
+function layoutOf(value: SpringValue): string {
+	if (typeof value === 'number') {
+		return 'number';
+	}
+	if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+		return `array:${value.length}`;
+	}
+	if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+		const keys = numericKeys(value);
+		if (keys.length > 0) {
+			return `object:${keys.join(',')}`;
+		}
+	}
+	throw new Error("Springs can only animate numbers, arrays of numbers and objects with numeric fields.");
+}
+
+/**
+ * Flattens a value into the numbers that are animated.
+ */
+function pack(value: SpringValue): number[] {
+	if (typeof value === 'number') {
+		return [value];
+	}
+	if (Array.isArray(value)) {
+		return [...value];
+	}
+	return numericKeys(value).map(key => (value as Record<string, number>)[key]);
+}
+
+/**
+ * Builds a value shaped like the template from animated numbers.
+ * Objects keep the template's prototype and non-numeric fields.
+ */
+function unpack<T extends SpringValue>(template: T, numbers: number[]): T {
+	if (typeof template === 'number') {
+		return numbers[0] as T;
+	}
+	if (Array.isArray(template)) {
+		return [...numbers] as unknown as T;
+	}
+
+	const result = Object.assign(Object.create(Object.getPrototypeOf(template)), template);
+	numericKeys(template).forEach((key, i) => {
+		result[key] = numbers[i];
+	});
+	return result;
+}
+
+/**
+ * Solves the motion of a damped spring over a step of time exactly, so any step size is stable.
+ * The result maps the displacement from the goal and the velocity at the start of the step to those at the end:
+ * `displacement' = displacement * posPos + velocity * posVel` and `velocity' = displacement * velPos + velocity * velVel`.
+ * @returns The coefficients `[posPos, posVel, velPos, velVel]`
+ */
+function springCoefficients(time: number, speed: number, damping: number): [number, number, number, number] {
+	if (time <= 0 || speed === 0) {
+		return [1, 0, 0, 1];
+	}
+
+	if (Math.abs(damping - 1) < 1e-6) {
+		// Critically damped
+		const decay = Math.exp(-speed * time);
+		return [
+			decay * (1 + speed * time),
+			decay * time,
+			-decay * speed * speed * time,
+			decay * (1 - speed * time)
+		];
+	}
+
+	if (damping < 1) {
+		// Underdamped: oscillates with decaying amplitude
+		const frequency = speed * Math.sqrt(1 - damping * damping);
+		const decay = Math.exp(-damping * speed * time);
+		const cos = Math.cos(frequency * time);
+		const sin = Math.sin(frequency * time);
+		return [
+			decay * (cos + damping * speed * sin / frequency),
+			decay * sin / frequency,
+			-decay * speed * speed * sin / frequency,
+			decay * (cos - damping * speed * sin / frequency)
+		];
+	}
+
+	// Overdamped: the sum of two decaying exponentials
+	const alpha = speed * Math.sqrt(damping * damping - 1);
+	const r1 = -damping * speed + alpha;
+	const r2 = -damping * speed - alpha;
+	const e1 = Math.exp(r1 * time);
+	const e2 = Math.exp(r2 * time);
+	const span = r2 - r1;
+	return [
+		(r2 * e1 - r1 * e2) / span,
+		(e2 - e1) / span,
+		r1 * r2 * (e1 - e2) / span,
+		(r2 * e2 - r1 * e1) / span
+	];
+}
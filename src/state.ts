@@ -1,18 +1,94 @@
-import { IDependent, IReactive, DependencyTracker } from './core';
+import { IDependent, IDisposable, IInspectable, IReactive, ChangeInfo, ChangeListener, DependencyTracker, Batch, Instrumentation } from './core';
+import { Scope } from './scope';
+import { EqualityFunction, EqualityOption, resolveEquality } from './equality';
+import { Scheduler } from './scheduler';
+import type { Computed, ComputedOptions } from './computed';
+import { PathValue, parsePath, getPath, setPath } from './path';
+import { Interceptor, InterceptorChain } from './interceptor';
+
+/**
+ * Options for creating a State.
+ */
+export interface StateOptions<T> {
+	/**
+	 * The scope that owns the state and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * How to decide whether a new value differs from the current one. Defaults to `'strict'` (`===`).
+	 */
+	equals?: EqualityOption<T>;
+
+	/**
+	 * Interceptors that every value set on the state passes through before it is stored, in order.
+	 */
+	interceptors?: StateInterceptor<T>[];
+
+	/**
+	 * The node this state is part of, such as the async computed whose value it holds.
+	 * Introspection and instrumentation report the owner in its place, and leave changes to it for the owner to report.
+	 */
+	owner?: object;
+}
+
+/**
+ * Middleware run on every value set on a State, before the value is stored and before dependents and listeners hear of it.
+ * It can pass the value on as it is or transformed, veto it by not calling `next`, or observe it.
+ *
+ * @example
+ * ```typescript
+ * const clamp: StateInterceptor<number> = (value, next) => next(Math.min(100, Math.max(0, value)));
+ * const log: StateInterceptor<number> = (value, next, state) => {
+ *   console.log(`${state.name}: ${state.peek()} -> ${value}`);
+ *   next(value);
+ * };
+ * ```
+ */
+export type StateInterceptor<T> = Interceptor<T, State<T>>;
 
 /**
  * Represents a reactive state container that notifies dependents when its value changes.
  */
-export class State<T> implements IReactive<T> {
+export class State<T> implements IReactive<T>, IDisposable, IInspectable {
 	private _value: T;
 	private dependents: Set<IDependent> = new Set<IDependent>();
-	private listeners: Set<(value: T) => void> = new Set();
+	private listeners: Set<ChangeListener<T>> = new Set();
+	private pendingDelivery: { previousValue: T } | null = null;
+	private scope: Scope | null;
+	private equalityFunc: EqualityFunction<T>;
+	private version: number = 0;
+	private interceptors: InterceptorChain<T, State<T>>;
+
+	/**
+	 * An optional debug name, used when reporting errors and inspecting the graph.
+	 */
+	name?: string;
+
+	/**
+	 * The node this state is part of, reported in its place by introspection and instrumentation.
+	 */
+	readonly owner?: object;
 
 	/**
 	 * Creates a new reactive state with the given initial value.
+	 * The initial value does not pass through the interceptors.
 	 */
-	constructor(initialValue: T) {
+	constructor(initialValue: T, options: StateOptions<T> = {}) {
 		this._value = initialValue;
+		this.name = options.name;
+		this.owner = options.owner;
+		this.equalityFunc = resolveEquality(options.equals);
+		this.interceptors = new InterceptorChain(options.interceptors);
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
 	}
 
 	/**
@@ -31,14 +107,45 @@ export class State<T> implements IReactive<T> {
 	}
 
 	/**
-	 * Sets the current value of the state.
+	 * Sets the current value of the state, after passing it through the interceptors.
 	 * If the value has changed, notifies dependents and triggers change listeners.
+	 * Dependents are invalidated immediately; inside a batch, listeners are notified when the batch ends.
 	 * @param newValue The new value to set
 	 */
 	set(newValue: T): void {
+		this.interceptors.run(newValue, this, value => this.commit(value));
+	}
+
+	/**
+	 * Registers an interceptor that every value set on the state passes through, after the existing ones.
+	 * @param interceptor The middleware to run before each value is stored
+	 * @returns A function that removes the interceptor
+	 */
+	intercept(interceptor: StateInterceptor<T>): () => void {
+		return this.interceptors.add(interceptor);
+	}
+
+	/**
+	 * Stores a value that made it through the interceptors and notifies dependents and listeners if it changed.
+	 * @param newValue The value to store
+	 */
+	protected commit(newValue: T): void {
 		if (!this.equals(this._value, newValue)) {
+			const oldValue = this._value;
 			this._value = newValue;
-			this.onValueChanged();
+			this.version++;
+			Instrumentation.origin(this, 'set');
+
+			Batch.run(() => {
+				this.notifyDependents();
+
+				Batch.enqueue(this, () => {
+					// Skip delivery if the value was changed back within the batch
+					if (!this.equals(oldValue, this._value)) {
+						this.notifyListeners(oldValue);
+					}
+				});
+			});
 		}
 	}
 
@@ -59,10 +166,10 @@ export class State<T> implements IReactive<T> {
 
 	/**
 	 * Registers a callback for value changes.
-	 * @param callback The function to call when the value changes
+	 * @param callback The function to call with the new value, the previous value and details of the change
 	 * @returns A function that can be called to unregister the callback
 	 */
-	onChange(callback: (value: T) => void): () => void {
+	onChange(callback: ChangeListener<T>): () => void {
 		this.listeners.add(callback);
 		return () => {
 			this.listeners.delete(callback);
@@ -71,10 +178,43 @@ export class State<T> implements IReactive<T> {
 
 	/**
 	 * Called when the value changes.
+	 * As the previous value is unknown here, listeners receive the current value as the previous one.
+	 * Changes reported this way do not pass through the interceptors.
 	 */
 	onValueChanged(): void {
-		this.notifyDependents();
-		this.listeners.forEach(listener => listener(this._value));
+		this.version++;
+		Instrumentation.origin(this, 'set');
+
+		Batch.run(() => {
+			this.notifyDependents();
+			Batch.enqueue(this, () => this.notifyListeners(this._value));
+		});
+	}
+
+	/**
+	 * Delivers the current value to every change listener through the default scheduler.
+	 * When deliveries are coalesced, the previous value is the one from before the first undelivered change.
+	 */
+	private notifyListeners(previousValue: T): void {
+		if (!this.pendingDelivery) {
+			this.pendingDelivery = { previousValue };
+		}
+
+		const value = this._value;
+		Scheduler.default.schedule(this, () => {
+			const previous = this.pendingDelivery ? this.pendingDelivery.previousValue : value;
+			const info: ChangeInfo = { source: this };
+			this.pendingDelivery = null;
+
+			this.listeners.forEach(listener => listener(value, previous, info));
+		});
+	}
+
+	/**
+	 * Gets a number that changes whenever the value of this state changes.
+	 */
+	getVersion(): number {
+		return this.version;
 	}
 
 	/**
@@ -91,39 +231,110 @@ export class State<T> implements IReactive<T> {
 		this.dependents.delete(dependent);
 	}
 
+	/**
+	 * Gets the nodes that currently read this state.
+	 */
+	getDependents(): IDependent[] {
+		return Array.from(this.dependents);
+	}
+
+	/**
+	 * Gets the number of change listeners registered on this state.
+	 */
+	getListenerCount(): number {
+		return this.listeners.size;
+	}
+
 	/**
 	 * Notifies all dependents that this state has changed.
 	 */
 	notifyDependents(): void {
 		// Create a copy to avoid issues if collection is modified during iteration
 		Array.from(this.dependents).forEach(dependent => {
+			Instrumentation.invalidate(this, dependent);
 			dependent.invalidate();
 		});
 	}
 
+	/**
+	 * Releases the state, dropping all dependents and change listeners and leaving its scope.
+	 */
+	dispose(): void {
+		this.dependents.clear();
+		this.listeners.clear();
+		this.interceptors.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
 	/**
 	 * Creates a derived state that transforms the value of this state.
+	 * @param options Options for the computed, such as `autoDispose` for temporary derivations
 	 */
-	map<R>(selector: (value: T) => R) {
+	map<R>(selector: (value: T) => R, options?: ComputedOptions<R>): Computed<R> {
 		// This will be implemented in Computed, but we provide a convenient API here
-		const { Computed } = require('./computed');
-		return new Computed(() => selector(this.use()));
+		const { Computed }: typeof import('./computed') = require('./computed');
+		return new Computed(() => selector(this.use()), options);
 	}
 
 	/**
 	 * Creates a derived boolean state that tests a condition on this state's value.
+	 * @param options Options for the computed, such as `autoDispose` for temporary derivations
+	 */
+	filter(predicate: (value: T) => boolean, options?: ComputedOptions<boolean>): Computed<boolean> {
+		const { Computed }: typeof import('./computed') = require('./computed');
+		return new Computed(() => predicate(this.use()), options);
+	}
+
+	/**
+	 * Creates a writable view of part of this state's value.
+	 * Reading the view applies the getter; setting it writes back a new value for this state made by the setter.
+	 * @param getter Extracts the part from the value
+	 * @param setter Returns a new value with the part replaced, leaving the old value untouched
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = new State({ name: 'Ada', age: 36 });
+	 * const age = user.lens(u => u.age, (u, age) => ({ ...u, age }));
+	 * age.set(37); // user is { name: 'Ada', age: 37 }
+	 * ```
+	 */
+	lens<R>(getter: (value: T) => R, setter: (value: T, part: R) => T): Computed<R> {
+		const { Computed }: typeof import('./computed') = require('./computed');
+		return new Computed<R>({
+			get: () => getter(this.use()),
+			set: (part: R) => this.set(setter(this._value, part))
+		});
+	}
+
+	/**
+	 * Creates a writable view of a nested field of this state's value, given as a dot-separated path such as `'address.city'`.
+	 * Setting the view writes back a copy of the value with only the objects and arrays along the path copied.
+	 * @param path The keys leading to the field, separated by dots; array indexes are written as numbers
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = new State({ name: 'Ada', address: { city: 'London' } });
+	 * const city = user.select('address.city');
+	 * city.set('Paris'); // user is a new object with a new address
+	 * ```
 	 */
-	filter(predicate: (value: T) => boolean) {
-		const { Computed } = require('./computed');
-		return new Computed(() => predicate(this.use()));
+	select<P extends string>(path: P): Computed<PathValue<T, P>> {
+		const keys = parsePath(path);
+		return this.lens(
+			value => getPath(value, keys) as PathValue<T, P>,
+			(value, part) => setPath(value, keys, part)
+		);
 	}
 
 	/**
-	 * Checks if two values are equal.
+	 * Checks if two values are equal, using the comparator given in the options.
 	 * This method can be overridden for custom equality logic.
 	 */
 	protected equals(a: T, b: T): boolean {
-		// Simple equality check, adequate for primitives
-		return a === b;
+		return this.equalityFunc(a, b);
 	}
 }
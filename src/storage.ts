@@ -0,0 +1,149 @@
+/**
+ * Reads and writes stored strings by key.
+ * Methods may work synchronously or return promises; synchronous adapters let persisted values load immediately.
+ */
+export interface IStorageAdapter {
+	/**
+	 * Reads the data stored under a key.
+	 * @returns The data, or null if nothing is stored under the key
+	 */
+	read(key: string): string | null | Promise<string | null>;
+
+	/**
+	 * Stores data under a key, replacing anything stored before.
+	 */
+	write(key: string, data: string): void | Promise<void>;
+
+	/**
+	 * Removes the data stored under a key.
+	 */
+	remove(key: string): void | Promise<void>;
+}
+
+/**
+ * The parts of the Web Storage API that the local storage adapter needs.
+ */
+export interface StorageLike {
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+}
+
+/**
+ * Keeps data in memory, for tests and for state that only needs to survive within a session.
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+	private data: Map<string, string> = new Map();
+
+	read(key: string): string | null {
+		return this.data.get(key) ?? null;
+	}
+
+	write(key: string, data: string): void {
+		this.data.set(key, data);
+	}
+
+	remove(key: string): void {
+		this.data.delete(key);
+	}
+}
+
+/**
+ * Keeps data in a Web Storage object, looked up when used so it can be swapped out.
+ */
+class WebStorageAdapter implements IStorageAdapter {
+	private getStorage: () => StorageLike;
+
+	constructor(getStorage: () => StorageLike) {
+		this.getStorage = getStorage;
+	}
+
+	read(key: string): string | null {
+		return this.getStorage().getItem(key);
+	}
+
+	write(key: string, data: string): void {
+		this.getStorage().setItem(key, data);
+	}
+
+	remove(key: string): void {
+		this.getStorage().removeItem(key);
+	}
+}
+
+/**
+ * Keeps the data for each key in its own file in a directory, using Node's `fs` module synchronously.
+ */
+class JsonFileStorageAdapter implements IStorageAdapter {
+	private directory: string;
+
+	constructor(directory: string) {
+		this.directory = directory;
+	}
+
+	read(key: string): string | null {
+		const fs: typeof import('fs') = require('fs');
+		const file = this.fileFor(key);
+		return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+	}
+
+	write(key: string, data: string): void {
+		const fs: typeof import('fs') = require('fs');
+		fs.mkdirSync(this.directory, { recursive: true });
+		fs.writeFileSync(this.fileFor(key), data, 'utf8');
+	}
+
+	remove(key: string): void {
+		const fs: typeof import('fs') = require('fs');
+		const file = this.fileFor(key);
+		if (fs.existsSync(file)) {
+			fs.unlinkSync(file);
+		}
+	}
+
+	private fileFor(key: string): string {
+		const path: typeof import('path') = require('path');
+		return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+	}
+}
+
+/**
+ * Built-in storage adapters for persisting values.
+ *
+ * @example
+ * ```typescript
+ * persist(settings, { key: 'settings', storage: StorageAdapter.local() });
+ * persist(settings, { key: 'settings', storage: StorageAdapter.jsonFile('./data') });
+ * ```
+ */
+export class StorageAdapter {
+	/**
+	 * Creates an adapter that keeps data in memory.
+	 */
+	static memory(): IStorageAdapter {
+		return new MemoryStorageAdapter();
+	}
+
+	/**
+	 * Creates an adapter that keeps data in `localStorage` or another object with the same API, such as `sessionStorage`.
+	 * @param storage The storage to use; defaults to the global `localStorage`, looked up on each access
+	 */
+	static local(storage?: StorageLike): IStorageAdapter {
+		return new WebStorageAdapter(() => {
+			const resolved = storage ?? (globalThis as { localStorage?: StorageLike }).localStorage;
+			if (!resolved) {
+				throw new Error("localStorage is not available in this environment.");
+			}
+			return resolved;
+		});
+	}
+
+	/**
+	 * Creates an adapter that keeps the data for each key in a `<key>.json` file in a directory, for Node.
+	 * The directory is created when the first value is written.
+	 * @param directory The directory to keep the files in
+	 */
+	static jsonFile(directory: string): IStorageAdapter {
+		return new JsonFileStorageAdapter(directory);
+	}
+}
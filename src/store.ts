@@ -0,0 +1,236 @@
+import { IDisposable, IReactive, Batch } from './core';
+import { ReactiveMap } from './reactive-map';
+import { ReactiveSet } from './reactive-set';
+import { Scope } from './scope';
+
+/**
+ * The saved values of a store, keyed by the keys their nodes were registered under.
+ */
+export type SnapshotValues = Record<string, unknown>;
+
+/**
+ * A JSON-serializable copy of the writable values in a store.
+ */
+export interface StoreSnapshot {
+	/**
+	 * The version of the store that took the snapshot, used to decide which migrations to run on restore.
+	 */
+	version: number;
+
+	/**
+	 * The saved values. Maps are saved as arrays of entries and sets as arrays of members.
+	 */
+	values: SnapshotValues;
+}
+
+/**
+ * Upgrades the values of a snapshot taken by one version of a store to the shape expected by the next.
+ */
+export type SnapshotMigration = (values: SnapshotValues) => SnapshotValues;
+
+/**
+ * Options for creating a Store.
+ */
+export interface StoreOptions {
+	/**
+	 * The scope that owns the store and disposes it along with everything else in the scope.
+	 */
+	scope?: Scope;
+
+	/**
+	 * The current version of the snapshot shape. Defaults to 1.
+	 */
+	version?: number;
+
+	/**
+	 * Migrations keyed by the version they upgrade from; the migration for version `n` turns
+	 * a version `n` snapshot into a version `n + 1` one.
+	 */
+	migrations?: Record<number, SnapshotMigration>;
+}
+
+/**
+ * A registry of reactive nodes under stable keys, whose values can be saved to and restored from a snapshot.
+ * Nodes derived from other nodes, such as computed values, springs and derived sets, can be registered but are never saved.
+ *
+ * @example
+ * ```typescript
+ * const store = new Store({ version: 2, migrations: { 1: values => ({ ...values, todos: values.items }) } });
+ * store.register('filter', filter);
+ * store.register('todos', todos);
+ *
+ * localStorage.setItem('app', JSON.stringify(store.snapshot()));
+ *
+ * // Later, possibly after an upgrade:
+ * store.restore(JSON.parse(localStorage.getItem('app')!));
+ * ```
+ */
+export class Store implements IDisposable {
+	private nodes: Map<string, IReactive<any>> = new Map();
+	private migrations: Record<number, SnapshotMigration>;
+	private scope: Scope | null;
+
+	/**
+	 * The current version of the snapshot shape.
+	 */
+	readonly version: number;
+
+	/**
+	 * Creates a new, empty store.
+	 */
+	constructor(options: StoreOptions = {}) {
+		this.version = options.version ?? 1;
+		this.migrations = options.migrations ?? {};
+		this.scope = options.scope ?? null;
+		if (this.scope) {
+			this.scope.add(this);
+		}
+	}
+
+	/**
+	 * Registers a node under the specified key.
+	 * @returns A function that unregisters the node
+	 * @throws Error If another node is already registered under the key
+	 */
+	register<T>(key: string, node: IReactive<T>): () => void {
+		const existing = this.nodes.get(key);
+		if (existing && existing !== node) {
+			throw new Error(`A node is already registered under the key "${key}".`);
+		}
+
+		this.nodes.set(key, node);
+		return () => this.unregister(key);
+	}
+
+	/**
+	 * Removes the node registered under the specified key.
+	 */
+	unregister(key: string): void {
+		this.nodes.delete(key);
+	}
+
+	/**
+	 * Gets the node registered under the specified key.
+	 */
+	get<T = unknown>(key: string): IReactive<T> | undefined {
+		return this.nodes.get(key);
+	}
+
+	/**
+	 * Gets the keys of every registered node.
+	 */
+	keys(): string[] {
+		return Array.from(this.nodes.keys());
+	}
+
+	/**
+	 * Saves the current value of every writable node.
+	 * Values are copied as they are, so they must themselves be serializable for the snapshot to be.
+	 */
+	snapshot(): StoreSnapshot {
+		const values: SnapshotValues = {};
+		this.nodes.forEach((node, key) => {
+			if (isWritable(node)) {
+				values[key] = toSnapshotValue(node);
+			}
+		});
+
+		return { version: this.version, values };
+	}
+
+	/**
+	 * Applies the values of a snapshot to the registered nodes, migrating it first if it is from an older version.
+	 * All values are applied in one batch, so dependents and listeners see the restored state at once.
+	 * Keys without a registered node are ignored, and nodes without a saved value keep their current value.
+	 * If any node refuses its value, the nodes already restored are set back, so a restore applies all or nothing.
+	 * @throws Error If the snapshot is from a newer version, a migration it needs is missing, or a node refuses its value
+	 */
+	restore(snapshot: StoreSnapshot): void {
+		const values = this.migrate(snapshot);
+
+		// Work out every value before applying any
+		const writes: Array<{ node: IReactive<unknown>, value: unknown, previousValue: unknown }> = [];
+		this.nodes.forEach((node, key) => {
+			if (isWritable(node) && Object.prototype.hasOwnProperty.call(values, key)) {
+				writes.push({ node, value: fromSnapshotValue(node, values[key]), previousValue: node.peek() });
+			}
+		});
+
+		Batch.run(() => {
+			const applied: typeof writes = [];
+			try {
+				writes.forEach(write => {
+					write.node.set(write.value);
+					applied.push(write);
+				});
+			} catch (error) {
+				applied.reverse().forEach(write => write.node.set(write.previousValue));
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Unregisters every node and leaves the scope. The nodes themselves are not disposed.
+	 */
+	dispose(): void {
+		this.nodes.clear();
+
+		if (this.scope) {
+			this.scope.remove(this);
+			this.scope = null;
+		}
+	}
+
+	/**
+	 * Runs the migrations needed to bring a snapshot up to the current version.
+	 */
+	private migrate(snapshot: StoreSnapshot): SnapshotValues {
+		if (snapshot.version > this.version) {
+			throw new Error(`Cannot restore a version ${snapshot.version} snapshot into a version ${this.version} store.`);
+		}
+
+		let values = snapshot.values;
+		for (let version = snapshot.version; version < this.version; version++) {
+			const migration = this.migrations[version];
+			if (!migration) {
+				throw new Error(`No migration from snapshot version ${version} to ${version + 1}.`);
+			}
+			values = migration(values);
+		}
+		return values;
+	}
+}
+
+/**
+ * Checks whether a node holds a value of its own rather than one derived from other nodes.
+ */
+function isWritable(node: IReactive<unknown>): boolean {
+	return !node.isDerived;
+}
+
+/**
+ * Gets the value of a node in its saved form.
+ */
+function toSnapshotValue(node: IReactive<unknown>): unknown {
+	if (node instanceof ReactiveMap) {
+		return Array.from(node.peek().entries());
+	}
+	if (node instanceof ReactiveSet) {
+		return Array.from(node.peek());
+	}
+	return node.peek();
+}
+
+/**
+ * Turns a saved value back into the form a node holds.
+ */
+function fromSnapshotValue(node: IReactive<unknown>, value: unknown): any {
+	if (node instanceof ReactiveMap) {
+		return new Map(value as Array<[unknown, unknown]>);
+	}
+	if (node instanceof ReactiveSet) {
+		return new Set(value as unknown[]);
+	}
+	return value;
+}
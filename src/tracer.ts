@@ -0,0 +1,267 @@
+import { EvaluationOutcome, IInstrument, Instrumentation, describeNode } from './core';
+
+/**
+ * How a traced node was affected by a change.
+ * Besides the evaluation outcomes, an entry can be:
+ * - `'origin'`: the node whose change started the propagation
+ * - `'pending'`: the node was invalidated but has not been brought up to date yet
+ * - `'repeated'`: the node was already invalidated earlier in the same wave; see its first entry
+ */
+export type TraceOutcome = EvaluationOutcome | 'origin' | 'pending' | 'repeated';
+
+/**
+ * One step of a propagation wave: a node and the steps it caused.
+ */
+export interface TraceEntry {
+	/**
+	 * The node this step concerns.
+	 */
+	node: object;
+
+	/**
+	 * A readable label for the node, its debug name if it has one.
+	 */
+	name: string;
+
+	/**
+	 * How the node was reached: it changed, it was invalidated by its parent, or it is an observer callback.
+	 */
+	kind: 'origin' | 'invalidate' | 'callback';
+
+	/**
+	 * For origins, how the node changed, such as `'set'` or a list mutation kind.
+	 */
+	mutation?: string;
+
+	/**
+	 * How the node was affected. Lazy computeds stay `'pending'` until they are next read.
+	 */
+	outcome: TraceOutcome;
+
+	/**
+	 * When the step happened, in milliseconds since the wave started.
+	 */
+	time: number;
+
+	/**
+	 * The time spent evaluating the node or running the callback, in milliseconds.
+	 */
+	duration?: number;
+
+	/**
+	 * The steps this one caused.
+	 */
+	children: TraceEntry[];
+}
+
+/**
+ * Everything that happened from a change until the graph settled.
+ * Changes made within one batch share a wave, each as its own origin.
+ */
+export interface PropagationTrace {
+	/**
+	 * The changes that started the wave, each the root of the steps it caused.
+	 */
+	origins: TraceEntry[];
+
+	/**
+	 * When the wave started, as a timestamp in milliseconds.
+	 */
+	startTime: number;
+
+	/**
+	 * How long the wave took to settle, in milliseconds, or undefined while it is still propagating.
+	 */
+	duration?: number;
+}
+
+/**
+ * Static class for tracing why nodes recompute and observers fire.
+ * While tracing, every change records a propagation wave: the node that changed, the path of invalidations
+ * through the graph, which nodes changed value and which turned out equal, and how long each step took.
+ *
+ * @example
+ * ```typescript
+ * const traces = Tracer.trace(() => count.set(2));
+ * console.log(Tracer.format(traces[0]));
+ * // Wave (0.12ms)
+ * //   count: set
+ * //     doubled: changed (0.03ms)
+ * //       render: callback (0.02ms)
+ * ```
+ */
+export class Tracer {
+	private static removeInstrument: (() => void) | null = null;
+	private static recorded: PropagationTrace[] = [];
+	private static current: PropagationTrace | null = null;
+
+	/**
+	 * The latest entry for each node, so the steps it causes can be attached to it.
+	 */
+	private static latest: WeakMap<object, { trace: PropagationTrace, entry: TraceEntry }> = new WeakMap();
+
+	/**
+	 * Entries for invalidated nodes waiting to learn how they turned out.
+	 */
+	private static pending: WeakMap<object, TraceEntry> = new WeakMap();
+
+	/**
+	 * Gets whether tracing is on.
+	 */
+	static get isTracing(): boolean {
+		return this.removeInstrument !== null;
+	}
+
+	/**
+	 * Gets the waves recorded since tracing started.
+	 */
+	static get traces(): PropagationTrace[] {
+		return [...this.recorded];
+	}
+
+	/**
+	 * Starts tracing, discarding any previously recorded waves.
+	 */
+	static start(): void {
+		this.stop();
+		this.recorded = [];
+		this.latest = new WeakMap();
+		this.pending = new WeakMap();
+
+		const instrument: IInstrument = {
+			onOrigin: (node, kind) => Tracer.recordOrigin(node, kind),
+			onInvalidate: (source, dependent) => Tracer.recordInvalidation(source, dependent),
+			onEvaluate: (node, outcome, duration) => Tracer.recordEvaluation(node, outcome, duration),
+			onCallback: (node, source, duration) => Tracer.recordCallback(node, source, duration),
+			onSettle: () => Tracer.settle()
+		};
+		this.removeInstrument = Instrumentation.add(instrument);
+	}
+
+	/**
+	 * Stops tracing.
+	 * @returns The waves recorded since tracing started
+	 */
+	static stop(): PropagationTrace[] {
+		if (this.removeInstrument) {
+			this.removeInstrument();
+			this.removeInstrument = null;
+		}
+		this.current = null;
+		return this.traces;
+	}
+
+	/**
+	 * Traces the changes made by the specified function.
+	 * @returns The waves recorded while the function ran
+	 */
+	static trace(func: () => void): PropagationTrace[] {
+		this.start();
+		try {
+			func();
+		} finally {
+			this.stop();
+		}
+		return this.traces;
+	}
+
+	/**
+	 * Formats a wave as an indented tree, one step per line.
+	 */
+	static format(trace: PropagationTrace): string {
+		const lines: string[] = [`Wave${trace.duration !== undefined ? ` (${formatDuration(trace.duration)})` : ''}`];
+
+		const write = (entry: TraceEntry, depth: number): void => {
+			const what = entry.kind === 'origin'
+				? entry.mutation
+				: entry.kind === 'callback' ? 'callback' : entry.outcome;
+			const duration = entry.duration !== undefined ? ` (${formatDuration(entry.duration)})` : '';
+
+			lines.push(`${'  '.repeat(depth)}${entry.name}: ${what}${duration}`);
+			entry.children.forEach(child => write(child, depth + 1));
+		};
+
+		trace.origins.forEach(origin => write(origin, 1));
+		return lines.join('\n');
+	}
+
+	/**
+	 * Gets the wave in progress, starting a new one if the previous wave has settled.
+	 */
+	private static currentTrace(): PropagationTrace {
+		if (!this.current) {
+			this.current = { origins: [], startTime: Instrumentation.now() };
+			this.recorded.push(this.current);
+		}
+		return this.current;
+	}
+
+	private static createEntry(trace: PropagationTrace, node: object, kind: TraceEntry['kind'], outcome: TraceOutcome): TraceEntry {
+		return {
+			node,
+			name: describeNode(node),
+			kind,
+			outcome,
+			time: Instrumentation.now() - trace.startTime,
+			children: []
+		};
+	}
+
+	private static recordOrigin(node: object, mutation: string): void {
+		const trace = this.currentTrace();
+		const entry = this.createEntry(trace, node, 'origin', 'origin');
+		entry.mutation = mutation;
+
+		trace.origins.push(entry);
+		this.latest.set(node, { trace, entry });
+	}
+
+	private static recordInvalidation(source: object, dependent: object): void {
+		const parent = this.latest.get(source);
+		if (!parent || parent.trace !== this.current) {
+			return;
+		}
+
+		const { trace } = parent;
+		const alreadyInvalidated = this.latest.get(dependent)?.trace === trace && this.pending.has(dependent);
+		const entry = this.createEntry(trace, dependent, 'invalidate', alreadyInvalidated ? 'repeated' : 'pending');
+		parent.entry.children.push(entry);
+
+		if (!alreadyInvalidated) {
+			this.latest.set(dependent, { trace, entry });
+			this.pending.set(dependent, entry);
+		}
+	}
+
+	private static recordEvaluation(node: object, outcome: EvaluationOutcome, duration: number): void {
+		const entry = this.pending.get(node);
+		if (entry) {
+			this.pending.delete(node);
+			entry.outcome = outcome;
+			entry.duration = duration;
+		}
+	}
+
+	private static recordCallback(node: object, source: object, duration: number): void {
+		const parent = this.latest.get(source);
+		if (parent) {
+			const entry = this.createEntry(parent.trace, node, 'callback', 'ran');
+			entry.duration = duration;
+			parent.entry.children.push(entry);
+		}
+	}
+
+	private static settle(): void {
+		if (this.current) {
+			this.current.duration = Instrumentation.now() - this.current.startTime;
+			this.current = null;
+		}
+	}
+}
+
+/**
+ * Formats a duration in milliseconds for display.
+ */
+function formatDuration(duration: number): string {
+	return `${duration.toFixed(2)}ms`;
+}
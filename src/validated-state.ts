@@ -0,0 +1,151 @@
+import { IReactive, Batch } from './core';
+import { State, StateOptions } from './state';
+import { Computed } from './computed';
+
+/**
+ * The outcome of a validation: one or more error messages, or nothing if the value is valid.
+ */
+export type ValidationResult = string | string[] | null | undefined;
+
+/**
+ * Checks a value, returning an error message (or several) if it is invalid.
+ */
+export type Validator<T> = (value: T) => ValidationResult;
+
+/**
+ * What to do with a value that fails validation.
+ * - `'store'`: store it anyway and report the errors (the default)
+ * - `'reject'`: keep the current value and report the errors of the rejected value
+ */
+export type ValidationPolicy = 'store' | 'reject';
+
+/**
+ * Options for creating a ValidatedState.
+ */
+export interface ValidatedStateOptions<T> extends StateOptions<T> {
+	/**
+	 * The validators run on every value that is set, in order.
+	 */
+	validators?: Validator<T>[];
+
+	/**
+	 * What to do with a value that fails validation. Defaults to `'store'`.
+	 */
+	policy?: ValidationPolicy;
+
+	/**
+	 * Validators that involve other states, expressed as reactive values (typically computeds) holding their result.
+	 * Their errors are reported alongside this state's own, but never cause a value to be rejected.
+	 */
+	crossValidators?: IReactive<ValidationResult>[];
+}
+
+/**
+ * A State that validates every value set on it and reports the errors as reactive values.
+ *
+ * @example
+ * ```typescript
+ * const password = new State('');
+ * const confirmation = new ValidatedState('', {
+ *   validators: [value => value.length === 0 ? 'Required' : null]
+ * });
+ * confirmation.addCrossValidator(new Computed(() =>
+ *   confirmation.use() !== password.use() ? 'Passwords do not match' : null
+ * ));
+ *
+ * Observer.watch(confirmation.errors, errors => showErrors(errors));
+ * ```
+ */
+export class ValidatedState<T> extends State<T> {
+	private validators: Validator<T>[];
+	private policy: ValidationPolicy;
+	private ownErrors: State<string[]>;
+	private crossValidators: State<IReactive<ValidationResult>[]>;
+
+	/**
+	 * The current error messages, from this state's validators followed by its cross-field validators.
+	 */
+	readonly errors: Computed<string[]>;
+
+	/**
+	 * Whether there are no errors.
+	 */
+	readonly isValid: Computed<boolean>;
+
+	/**
+	 * Creates a new validated state. The initial value is validated but always stored.
+	 */
+	constructor(initialValue: T, options: ValidatedStateOptions<T> = {}) {
+		super(initialValue, options);
+		this.validators = options.validators ?? [];
+		this.policy = options.policy ?? 'store';
+		this.ownErrors = new State(this.validate(initialValue), { equals: 'shallow' });
+		this.crossValidators = new State(options.crossValidators ?? []);
+
+		this.errors = new Computed(() => [
+			...this.ownErrors.use(),
+			...this.crossValidators.use().flatMap(validator => toMessages(validator.use()))
+		], { equals: 'shallow' });
+		this.isValid = new Computed(() => this.errors.use().length === 0);
+	}
+
+	/**
+	 * Validates and stores a value that made it through the interceptors, so that what is validated is what would be stored.
+	 * With the `'reject'` policy, an invalid value is not stored; its errors are reported until the next valid value is set.
+	 * @param newValue The value to store
+	 */
+	protected commit(newValue: T): void {
+		const messages = this.validate(newValue);
+
+		if (messages.length > 0 && this.policy === 'reject') {
+			this.ownErrors.set(messages);
+			return;
+		}
+
+		Batch.run(() => {
+			super.commit(newValue);
+			this.ownErrors.set(messages);
+		});
+	}
+
+	/**
+	 * Runs this state's validators on a value without setting it.
+	 * @returns The error messages, empty if the value is valid
+	 */
+	validate(value: T): string[] {
+		return this.validators.flatMap(validator => toMessages(validator(value)));
+	}
+
+	/**
+	 * Adds a validator that involves other states.
+	 * @param validator A reactive value, typically a computed, holding the result of the validation
+	 * @returns A function that removes the validator
+	 */
+	addCrossValidator(validator: IReactive<ValidationResult>): () => void {
+		this.crossValidators.set([...this.crossValidators.peek(), validator]);
+		return () => {
+			this.crossValidators.set(this.crossValidators.peek().filter(existing => existing !== validator));
+		};
+	}
+
+	/**
+	 * Releases the state along with its error reporting.
+	 */
+	dispose(): void {
+		super.dispose();
+		this.isValid.dispose();
+		this.errors.dispose();
+		this.ownErrors.dispose();
+		this.crossValidators.dispose();
+	}
+}
+
+/**
+ * Turns a validation result into a list of error messages.
+ */
+function toMessages(result: ValidationResult): string[] {
+	if (result === null || result === undefined) {
+		return [];
+	}
+	return Array.isArray(result) ? result : [result];
+}